@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
-import { ArrowRight, Plus, Trash2, RefreshCw, Zap, AlertTriangle, Check, X } from 'lucide-react';
+import { Fragment, useState, useEffect, useMemo } from 'react';
+import { ArrowRight, Plus, Trash2, RefreshCw, Zap, AlertTriangle, Check, Split } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -13,18 +13,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { MappingTemplatePanel } from '../templates/mapping-template-panel';
+import { CombineSourcesEditor, SplitTargetEditor } from './multi-column-editors';
+import { DerivedColumnsPanel, checkDerivedColumn, type DerivedColumnRow } from './derived-columns-panel';
+import { TransformParamsForm } from './transform-params-form';
 import { 
   ColumnMatcher, 
   DataTypeDetector, 
   MappingGenerator 
 } from '@/lib/column-mapping';
+import { ContentMatcher, type ColumnContentSignature } from '@/lib/content-matching';
+import { Vocabulary } from '@/lib/synonym-dictionaries';
+import { MappingTemplates } from '@/lib/mapping-templates';
+import { TargetSchemas } from '@/lib/target-schema';
+import { checkSplit, getMappedTargets } from '@/lib/mapping-utils';
+import { TransformRegistry } from '@/lib/transform-registry';
 import { calculateSimilarity } from '@/lib/text-utils';
 import { useAppStore } from '@/store';
 import type { 
   ProcessedFile, 
   ColumnMapping, 
   ColumnSuggestion,
-  DataType 
+  DataType,
+  TemplateMatch
 } from '@/types';
 
 interface ColumnMappingInterfaceProps {
@@ -40,10 +51,23 @@ interface MappingRow {
   confidence: number;
   dataTypeMatch: boolean;
   suggestions: ColumnSuggestion[];
+  explanation?: string; // why the target beat its runner-up
   transform?: ColumnMapping['mappings'][0]['transform'];
+  transformParams?: ColumnMapping['mappings'][0]['transformParams'];
+  sourceColumns?: string[]; // combined with sourceColumn
+  combine?: ColumnMapping['mappings'][0]['combine'];
+  targetColumns?: string[]; // filled after targetColumn by the split
+  split?: ColumnMapping['mappings'][0]['split'];
   isCustom: boolean;
 }
 
+type SuggestedPair = Pick<MappingRow, 'sourceFileId' | 'sourceColumn' | 'targetColumn'>;
+
+const MATCH_TYPE_TITLES: Partial<Record<ColumnSuggestion['matchType'], string>> = {
+  content: 'Matched on column values',
+  memory: 'Previously mapped by you',
+};
+
 export function ColumnMappingInterface({ 
   sourceFiles, 
   onMappingComplete 
@@ -53,11 +77,25 @@ export function ColumnMappingInterface({
   const [isGeneratingMappings, setIsGeneratingMappings] = useState(false);
   const [selectedJoinType, setSelectedJoinType] = useState<'inner' | 'left' | 'right' | 'full'>('inner');
   const [joinKey, setJoinKey] = useState<string>('');
+  const [suggestedPairs, setSuggestedPairs] = useState<SuggestedPair[]>([]);
+  const [templateMatches, setTemplateMatches] = useState<Record<string, TemplateMatch>>({});
+  const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
+  const [derivedRows, setDerivedRows] = useState<DerivedColumnRow[]>([]);
 
-  const { addMapping } = useAppStore();
+  const {
+    addMapping,
+    synonymDictionaries,
+    mappingMemory,
+    recordMappingDecisions,
+    clearMappingMemory,
+    mappingTemplates,
+    targetSchema: canonicalSchema
+  } = useAppStore();
 
-  // Generate unified target schema from all files
+  // Generate unified target schema from all files, unless a target schema fixes it
   const unifiedSchema = useMemo(() => {
+    if (canonicalSchema) return canonicalSchema.columns.map(column => column.name);
+    
     const allColumns = new Set<string>();
     
     sourceFiles.forEach(file => {
@@ -67,7 +105,7 @@ export function ColumnMappingInterface({
     });
     
     return Array.from(allColumns).sort();
-  }, [sourceFiles]);
+  }, [sourceFiles, canonicalSchema]);
 
   // Initialize with auto-generated mappings
   useEffect(() => {
@@ -86,44 +124,102 @@ export function ColumnMappingInterface({
     try {
       const newMappingRows: MappingRow[] = [];
       
+      // Value signatures per file; a target column takes the first file that has it
+      const fileSignatures = new Map(sourceFiles.map(file => [file.id, ContentMatcher.buildSignatures(file)]));
+      const targetSignatures = new Map<string, ColumnContentSignature>();
+      fileSignatures.forEach(signatures => signatures.forEach((signature, column) => {
+        if (!targetSignatures.has(column)) targetSignatures.set(column, signature);
+      }));
+      
+      const vocabulary = Vocabulary.fromDictionaries(synonymDictionaries);
+      const matcher = new ColumnMatcher(unifiedSchema, targetSignatures, vocabulary, mappingMemory);
+      
+      const newTemplateMatches: Record<string, TemplateMatch> = {};
+      
       for (const sourceFile of sourceFiles) {
         if (!sourceFile.parsedData) continue;
         
-        const matcher = new ColumnMatcher(unifiedSchema);
+        const buildRow = (
+          sourceColumn: string,
+          targetColumn: string,
+          fields: Pick<MappingRow,
+            'confidence' | 'suggestions' | 'explanation' | 'transform' | 'transformParams' |
+            'sourceColumns' | 'combine' | 'targetColumns' | 'split'
+          >
+        ): MappingRow => {
+          const row: MappingRow = {
+            id: `${sourceFile.id}-${sourceColumn}-${Date.now()}`,
+            sourceFileId: sourceFile.id,
+            sourceColumn,
+            targetColumn,
+            dataTypeMatch: false,
+            isCustom: false,
+            ...fields,
+            transform: fields.transform ?? getRecommendedTransform(
+              getSourceColumnType(sourceFile.id, sourceColumn),
+              getTargetColumnType(targetColumn)
+            )
+          };
+          return { ...row, dataTypeMatch: getDataTypeMatch(row) };
+        };
         
-        for (const sourceColumn of sourceFile.parsedData.headers) {
-          const suggestions = matcher.findMatches(sourceColumn, 3);
-          const bestMatch = suggestions[0];
-          
-          if (bestMatch && bestMatch.similarity > 0.5) {
-            // Check data type compatibility
-            const sourceColType = sourceFile.parsedData.columnTypes.find(c => c.name === sourceColumn);
-            const targetColType = sourceFiles
-              .flatMap(f => f.parsedData?.columnTypes || [])
-              .find(c => c.name === bestMatch.targetColumn);
-            
-            const dataTypeMatch = sourceColType && targetColType 
-              ? DataTypeDetector.areTypesCompatible(sourceColType.type, targetColType.type)
-              : false;
-            
-            const mappingRow: MappingRow = {
-              id: `${sourceFile.id}-${sourceColumn}-${Date.now()}`,
-              sourceFileId: sourceFile.id,
-              sourceColumn,
-              targetColumn: bestMatch.targetColumn,
-              confidence: bestMatch.similarity,
-              dataTypeMatch,
-              suggestions,
-              transform: getRecommendedTransform(sourceColType?.type, targetColType?.type),
-              isCustom: false
-            };
-            
-            newMappingRows.push(mappingRow);
+        // A saved template for these headers maps the columns it knows
+        const templateMatch = MappingTemplates.findBestMatch(mappingTemplates, sourceFile.parsedData.headers);
+        const templateRows = templateMatch
+          ? MappingTemplates.applyTemplate(templateMatch.template, sourceFile.parsedData.headers, templateMatch.drift)
+            .map(mapping => buildRow(mapping.sourceColumn, mapping.targetColumn, {
+              confidence: 1,
+              suggestions: [{
+                sourceColumn: mapping.sourceColumn,
+                targetColumn: mapping.targetColumn,
+                similarity: 1,
+                matchType: 'exact'
+              }],
+              explanation: `From template "${templateMatch.template.name}"`,
+              transform: mapping.transform,
+              transformParams: mapping.transformParams,
+              sourceColumns: mapping.sourceColumns,
+              combine: mapping.combine,
+              targetColumns: mapping.targetColumns,
+              split: mapping.split
+            }))
+          : [];
+        
+        if (templateMatch) {
+          newTemplateMatches[sourceFile.id] = templateMatch;
+          newMappingRows.push(...templateRows);
+        }
+        
+        // Each file's remaining columns claim distinct targets
+        const templateTargets = new Set(templateRows.map(row => row.targetColumn));
+        const assignments = MappingGenerator.assignColumns(
+          sourceFile.parsedData.headers.filter(header => !templateRows.some(row => row.sourceColumn === header)),
+          unifiedSchema.length,
+          matcher,
+          {
+            sourceSignatures: fileSignatures.get(sourceFile.id),
+            fileName: sourceFile.name,
+            threshold: 0.5,
+            isAllowed: (_, targetColumn) => !templateTargets.has(targetColumn)
           }
+        );
+        
+        for (const assignment of assignments) {
+          const { sourceColumn, match: bestMatch } = assignment;
+          
+          newMappingRows.push(buildRow(sourceColumn, bestMatch.targetColumn, {
+            confidence: bestMatch.similarity,
+            suggestions: [bestMatch, ...assignment.alternatives.map(alt => alt.suggestion)],
+            explanation: MappingGenerator.explainAssignment(assignment)
+          }));
         }
       }
       
       setMappingRows(newMappingRows);
+      setTemplateMatches(newTemplateMatches);
+      setSuggestedPairs(newMappingRows.map(({ sourceFileId, sourceColumn, targetColumn }) => 
+        ({ sourceFileId, sourceColumn, targetColumn })
+      ));
     } catch (error) {
       console.error('Error generating auto mappings:', error);
     } finally {
@@ -178,9 +274,11 @@ export function ColumnMappingInterface({
    * Update mapping row
    */
   const updateMapping = (id: string, updates: Partial<MappingRow>) => {
-    setMappingRows(rows => rows.map(row => 
-      row.id === id ? { ...row, ...updates } : row
-    ));
+    setMappingRows(rows => rows.map(row => {
+      if (row.id !== id) return row;
+      const updated = { ...row, ...updates };
+      return { ...updated, dataTypeMatch: getDataTypeMatch(updated) };
+    }));
   };
 
   /**
@@ -209,6 +307,35 @@ export function ColumnMappingInterface({
     return file?.parsedData?.headers || [];
   };
 
+  /**
+   * Detected type of a source column
+   */
+  const getSourceColumnType = (fileId: string, column: string): DataType | undefined => {
+    const file = sourceFiles.find(f => f.id === fileId);
+    return file?.parsedData?.columnTypes.find(c => c.name === column)?.type;
+  };
+
+  /**
+   * Type of a target column: from the target schema, else from an uploaded column of that name
+   */
+  const getTargetColumnType = (column: string): DataType | undefined => {
+    return canonicalSchema?.columns.find(c => c.name === column)?.type ?? sourceFiles
+      .flatMap(f => f.parsedData?.columnTypes || [])
+      .find(c => c.name === column)?.type;
+  };
+
+  /**
+   * Whether the source column, after its transform, fits the target column's type
+   */
+  const getDataTypeMatch = (row: MappingRow): boolean => {
+    const sourceType = getSourceColumnType(row.sourceFileId, row.sourceColumn);
+    const targetType = getTargetColumnType(row.targetColumn);
+    if (!sourceType || !targetType) return false;
+
+    const outputType = TransformRegistry.getOutputType(row.transform || 'none', sourceType, row.transformParams);
+    return DataTypeDetector.areTypesCompatible(outputType, targetType);
+  };
+
   /**
    * Get confidence color
    */
@@ -232,18 +359,31 @@ export function ColumnMappingInterface({
       }
     });
     
+    // Derived columns alone still give a file a mapping
+    derivedRows.forEach(row => {
+      if (!mappingsBySource.has(row.sourceFileId)) mappingsBySource.set(row.sourceFileId, []);
+    });
+    
     // Convert to ColumnMapping format
     const finalMappings: ColumnMapping[] = [];
     
     for (const [sourceFileId, rows] of mappingsBySource.entries()) {
+      const derivedColumns = derivedRows
+        .filter(row => row.sourceFileId === sourceFileId)
+        .map(({ targetColumn, expression }) => ({ targetColumn: targetColumn.trim(), expression }));
+      
       const mapping: ColumnMapping = {
         id: `mapping-${sourceFileId}-${Date.now()}`,
         sourceFileId,
         mappings: rows.map(row => ({
           sourceColumn: row.sourceColumn,
           targetColumn: row.targetColumn,
-          transform: row.transform || 'none'
+          transform: row.transform || 'none',
+          ...(row.transformParams ? { transformParams: row.transformParams } : {}),
+          ...(row.combine && row.sourceColumns?.length ? { sourceColumns: row.sourceColumns, combine: row.combine } : {}),
+          ...(row.split && row.targetColumns?.length ? { targetColumns: row.targetColumns, split: row.split } : {})
         })),
+        ...(derivedColumns.length > 0 ? { derivedColumns } : {}),
         joinType: selectedJoinType,
         joinKey: joinKey || undefined
       };
@@ -254,11 +394,33 @@ export function ColumnMappingInterface({
     return finalMappings;
   };
 
+  /**
+   * Remember the final pairs as accepted and the suggestions the user changed or removed as rejected
+   */
+  const learnFromMappings = () => {
+    const isSamePair = (a: SuggestedPair, b: SuggestedPair) =>
+      a.sourceFileId === b.sourceFileId && a.sourceColumn === b.sourceColumn && a.targetColumn === b.targetColumn;
+    const finalRows = mappingRows.filter(row => row.sourceColumn && row.targetColumn);
+
+    recordMappingDecisions([
+      ...finalRows.map(row => ({ ...row, accepted: true })),
+      ...suggestedPairs
+        .filter(pair => !finalRows.some(row => isSamePair(row, pair)))
+        .map(pair => ({ ...pair, accepted: false })),
+    ].map(({ sourceFileId, sourceColumn, targetColumn, accepted }) => ({
+      sourceColumn,
+      targetColumn,
+      accepted,
+      fileName: sourceFiles.find(f => f.id === sourceFileId)?.name
+    })));
+  };
+
   /**
    * Complete mapping process
    */
   const completeMappings = () => {
     const finalMappings = generateFinalMappings();
+    learnFromMappings();
     
     // Add to store
     finalMappings.forEach(mapping => addMapping(mapping));
@@ -267,6 +429,58 @@ export function ColumnMappingInterface({
     onMappingComplete?.(finalMappings);
   };
 
+  // Current mappings per source file, for saving as templates
+  const fileMappings = useMemo(() => {
+    const bySource: Record<string, ColumnMapping['mappings']> = {};
+    mappingRows.forEach(row => {
+      if (!row.sourceColumn || !row.targetColumn) return;
+      bySource[row.sourceFileId] = [
+        ...(bySource[row.sourceFileId] ?? []),
+        {
+          sourceColumn: row.sourceColumn,
+          targetColumn: row.targetColumn,
+          transform: row.transform || 'none',
+          transformParams: row.transformParams,
+          sourceColumns: row.sourceColumns,
+          combine: row.combine,
+          targetColumns: row.targetColumns,
+          split: row.split
+        }
+      ];
+    });
+    return bySource;
+  }, [mappingRows]);
+
+  // Required target schema columns some file does not fill yet; these block applying the mappings.
+  // Without a join key each file's rows are appended, so every file must fill them.
+  const missingRequired = useMemo(() => {
+    if (!canonicalSchema) return [];
+
+    const sources = sourceFiles
+      .map(file => ({
+        name: file.name,
+        columns: [
+          ...mappingRows.filter(row => row.sourceFileId === file.id && row.sourceColumn).flatMap(row => getMappedTargets(row)),
+          ...derivedRows.filter(row => row.sourceFileId === file.id).map(row => row.targetColumn.trim())
+        ]
+      }))
+      .filter(source => source.columns.length > 0);
+
+    return TargetSchemas.findMissingRequired(canonicalSchema, sources, !!joinKey);
+  }, [canonicalSchema, sourceFiles, mappingRows, derivedRows, joinKey]);
+
+  // Derived columns with no target name or an expression that does not compile
+  const invalidDerivedCount = useMemo(
+    () => derivedRows.filter(row => checkDerivedColumn(row, derivedRows, sourceFiles).error).length,
+    [derivedRows, sourceFiles]
+  );
+
+  // Splits whose regex pattern is empty or does not compile
+  const invalidSplitCount = useMemo(
+    () => mappingRows.filter(row => row.split && row.targetColumns?.length && checkSplit(row.split)).length,
+    [mappingRows]
+  );
+
   /**
    * Calculate overall mapping quality
    */
@@ -314,9 +528,26 @@ export function ColumnMappingInterface({
             <RefreshCw className={`w-4 h-4 mr-2 ${isGeneratingMappings ? 'animate-spin' : ''}`} />
             {isGeneratingMappings ? 'Generating...' : 'Auto-Map'}
           </Button>
+          
+          {mappingMemory.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={clearMappingMemory}
+              title="Forget the mappings learned from earlier sessions"
+            >
+              Forget {mappingMemory.length} learned
+            </Button>
+          )}
         </div>
       </div>
 
+      <MappingTemplatePanel
+        sourceFiles={sourceFiles}
+        fileMappings={fileMappings}
+        templateMatches={templateMatches}
+      />
+
       {/* Mapping Configuration */}
       <Card className="p-4">
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -386,119 +617,181 @@ export function ColumnMappingInterface({
             </thead>
             <tbody className="divide-y divide-gray-200">
               {mappingRows.map((row) => (
-                <tr key={row.id} className="hover:bg-gray-50">
-                  <td className="p-4">
-                    <div className="text-sm font-medium text-gray-900">
-                      {getFileName(row.sourceFileId)}
-                    </div>
-                  </td>
+                <Fragment key={row.id}>
+                  <tr className="hover:bg-gray-50">
+                    <td className="p-4">
+                      <div className="text-sm font-medium text-gray-900">
+                        {getFileName(row.sourceFileId)}
+                      </div>
+                    </td>
                   
-                  <td className="p-4">
-                    {row.isCustom ? (
-                      <Select 
-                        value={row.sourceColumn} 
-                        onValueChange={(value) => updateMapping(row.id, { sourceColumn: value })}
-                      >
-                        <SelectTrigger className="w-40">
-                          <SelectValue placeholder="Select column..." />
-                        </SelectTrigger>
-                        <SelectContent>
-                          {getSourceColumns(row.sourceFileId).map((col) => (
-                            <SelectItem key={col} value={col}>{col}</SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                    ) : (
-                      <Badge variant="outline">{row.sourceColumn}</Badge>
-                    )}
-                  </td>
+                    <td className="p-4">
+                      {row.isCustom ? (
+                        <Select 
+                          value={row.sourceColumn} 
+                          onValueChange={(value) => updateMapping(row.id, { sourceColumn: value })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue placeholder="Select column..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getSourceColumns(row.sourceFileId).map((col) => (
+                              <SelectItem key={col} value={col}>{col}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline">{row.sourceColumn}</Badge>
+                      )}
+                      {row.combine && row.sourceColumns?.length ? (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {row.combine.kind === 'concat' ? 'joined with' : 'or'} {row.sourceColumns.join(', ')}
+                        </div>
+                      ) : null}
+                    </td>
                   
-                  <td className="p-4 text-center">
-                    <ArrowRight className="w-4 h-4 text-gray-400 mx-auto" />
-                  </td>
+                    <td className="p-4 text-center">
+                      <ArrowRight className="w-4 h-4 text-gray-400 mx-auto" />
+                    </td>
                   
-                  <td className="p-4">
-                    {row.isCustom ? (
+                    <td className="p-4">
+                      {row.isCustom ? (
+                        <Select 
+                          value={row.targetColumn} 
+                          onValueChange={(value) => updateMapping(row.id, { targetColumn: value })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue placeholder="Select target..." />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {unifiedSchema.map((col) => (
+                              <SelectItem key={col} value={col}>{col}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <div className="space-y-1">
+                          <div className="flex items-center space-x-1">
+                            <Badge variant="default">{row.targetColumn}</Badge>
+                            {row.suggestions[0]?.matchType === 'memory' && (
+                              <Badge variant="outline" className="text-xs">Previously mapped by you</Badge>
+                            )}
+                          </div>
+                          {row.split && row.targetColumns?.length ? (
+                            <p className="text-xs text-gray-500">split into {row.targetColumns.join(', ')}</p>
+                          ) : null}
+                          {row.explanation && (
+                            <p className="text-xs text-gray-500">{row.explanation}</p>
+                          )}
+                          {row.suggestions.length > 1 && (
+                            <div className="flex flex-wrap gap-1">
+                              {row.suggestions.slice(1, 3).map((suggestion, idx) => (
+                                <Button
+                                  key={idx}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  title={MATCH_TYPE_TITLES[suggestion.matchType]}
+                                  onClick={() => applySuggestion(row.id, suggestion)}
+                                >
+                                  {suggestion.targetColumn} ({Math.round(suggestion.similarity * 100)}%)
+                                </Button>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </td>
+                  
+                    <td className="p-4">
+                      <div className="flex items-center space-x-2">
+                        <Badge 
+                          variant="outline" 
+                          className={`${getConfidenceColor(row.confidence)} text-xs`}
+                        >
+                          {Math.round(row.confidence * 100)}%
+                        </Badge>
+                        {row.dataTypeMatch ? (
+                          <Check className="w-4 h-4 text-green-600" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 text-orange-600" />
+                        )}
+                      </div>
+                    </td>
+                  
+                    <td className="p-4">
                       <Select 
-                        value={row.targetColumn} 
-                        onValueChange={(value) => updateMapping(row.id, { targetColumn: value })}
+                        value={row.transform || 'none'} 
+                        onValueChange={(value) => updateMapping(row.id, { transform: value, transformParams: undefined })}
                       >
-                        <SelectTrigger className="w-40">
-                          <SelectValue placeholder="Select target..." />
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          {unifiedSchema.map((col) => (
-                            <SelectItem key={col} value={col}>{col}</SelectItem>
+                          {TransformRegistry.listFor(getSourceColumnType(row.sourceFileId, row.sourceColumn)).map(transform => (
+                            <SelectItem key={transform.id} value={transform.id} title={transform.description}>
+                              {transform.label}
+                            </SelectItem>
                           ))}
+                          {row.transform && !TransformRegistry.get(row.transform) && (
+                            <SelectItem value={row.transform}>{row.transform} (not registered)</SelectItem>
+                          )}
                         </SelectContent>
                       </Select>
-                    ) : (
-                      <div className="space-y-1">
-                        <Badge variant="default">{row.targetColumn}</Badge>
-                        {row.suggestions.length > 1 && (
-                          <div className="flex flex-wrap gap-1">
-                            {row.suggestions.slice(1, 3).map((suggestion, idx) => (
-                              <Button
-                                key={idx}
-                                variant="ghost"
-                                size="sm"
-                                className="h-6 px-2 text-xs"
-                                onClick={() => applySuggestion(row.id, suggestion)}
-                              >
-                                {suggestion.targetColumn} ({Math.round(suggestion.similarity * 100)}%)
-                              </Button>
-                            ))}
-                          </div>
-                        )}
-                      </div>
-                    )}
-                  </td>
-                  
-                  <td className="p-4">
-                    <div className="flex items-center space-x-2">
-                      <Badge 
-                        variant="outline" 
-                        className={`${getConfidenceColor(row.confidence)} text-xs`}
-                      >
-                        {Math.round(row.confidence * 100)}%
-                      </Badge>
-                      {row.dataTypeMatch ? (
-                        <Check className="w-4 h-4 text-green-600" />
-                      ) : (
-                        <AlertTriangle className="w-4 h-4 text-orange-600" />
+                      {row.transform && TransformRegistry.get(row.transform) && (
+                        <TransformParamsForm
+                          transform={TransformRegistry.get(row.transform)!}
+                          params={row.transformParams}
+                          onChange={(transformParams) => updateMapping(row.id, { transformParams })}
+                        />
                       )}
-                    </div>
-                  </td>
-                  
-                  <td className="p-4">
-                    <Select 
-                      value={row.transform || 'none'} 
-                      onValueChange={(value: any) => updateMapping(row.id, { transform: value })}
-                    >
-                      <SelectTrigger className="w-32">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="none">None</SelectItem>
-                        <SelectItem value="lowercase">Lowercase</SelectItem>
-                        <SelectItem value="uppercase">Uppercase</SelectItem>
-                        <SelectItem value="date_format">Date Format</SelectItem>
-                        <SelectItem value="number_format">Number Format</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </td>
+                    </td>
                   
-                  <td className="p-4 text-center">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeMapping(row.id)}
-                      className="text-red-600 hover:text-red-800"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </td>
-                </tr>
+                    <td className="p-4 text-center">
+                      <div className="flex items-center justify-center">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Combine or split columns"
+                          onClick={() => setExpandedRowId(expandedRowId === row.id ? null : row.id)}
+                          disabled={!row.sourceColumn || !row.targetColumn}
+                        >
+                          <Split className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeMapping(row.id)}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                  {expandedRowId === row.id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="p-4">
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                          <CombineSourcesEditor
+                            sourceColumn={row.sourceColumn}
+                            sourceColumns={row.sourceColumns ?? []}
+                            combine={row.combine}
+                            availableColumns={getSourceColumns(row.sourceFileId)}
+                            onChange={(updates) => updateMapping(row.id, updates)}
+                          />
+                          <SplitTargetEditor
+                            targetColumn={row.targetColumn}
+                            targetColumns={row.targetColumns ?? []}
+                            split={row.split}
+                            availableTargets={unifiedSchema.filter(col => col !== row.targetColumn)}
+                            onChange={(updates) => updateMapping(row.id, updates)}
+                          />
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -513,26 +806,67 @@ export function ColumnMappingInterface({
         </div>
       </Card>
 
+      <DerivedColumnsPanel
+        sourceFiles={sourceFiles}
+        rows={derivedRows}
+        targetOptions={unifiedSchema}
+        onChange={setDerivedRows}
+      />
+
+      {missingRequired.length > 0 && (
+        <Card className="p-4 border-red-200 bg-red-50">
+          <div className="flex items-start space-x-2">
+            <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-red-800">
+                Required columns of &quot;{canonicalSchema?.name}&quot; are not mapped
+              </p>
+              <ul className="text-sm text-red-700 mt-1">
+                {missingRequired.map(({ column, missingFrom }) => (
+                  <li key={column.name}>
+                    {column.name} ({column.type}){column.description ? ` – ${column.description}` : ''}
+                    {missingFrom.length > 0 && (
+                      <span className="text-red-600"> – missing from {missingFrom.join(', ')}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Card>
+      )}
+
       {/* Summary & Actions */}
-      {mappingRows.length > 0 && (
+      {(mappingRows.length > 0 || derivedRows.length > 0) && (
         <Card className="p-4">
           <div className="flex items-center justify-between">
             <div className="space-y-1">
               <p className="text-sm text-gray-600">
-                {mappingRows.length} mappings configured across {sourceFiles.length} files
+                {mappingRows.length} mappings
+                {derivedRows.length > 0 && ` and ${derivedRows.length} derived columns`} configured across {sourceFiles.length} files
               </p>
               <p className="text-xs text-gray-500">
                 Quality score: {Math.round(mappingQuality)}% • 
                 {mappingRows.filter(r => r.dataTypeMatch).length} type matches • 
                 {mappingRows.filter(r => r.confidence >= 0.8).length} high confidence
               </p>
+              {invalidDerivedCount > 0 && (
+                <p className="text-xs text-red-600">
+                  Fix {invalidDerivedCount} derived column{invalidDerivedCount === 1 ? '' : 's'} before applying
+                </p>
+              )}
+              {invalidSplitCount > 0 && (
+                <p className="text-xs text-red-600">
+                  Fix {invalidSplitCount} split pattern{invalidSplitCount === 1 ? '' : 's'} before applying
+                </p>
+              )}
             </div>
             
             <div className="flex space-x-3">
               <Button variant="outline">
                 Preview Result
               </Button>
-              <Button onClick={completeMappings}>
+              <Button onClick={completeMappings} disabled={missingRequired.length > 0 || invalidDerivedCount > 0 || invalidSplitCount > 0}>
                 Apply Mappings
               </Button>
             </div>
@@ -0,0 +1,226 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Plus, Sigma, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ExpressionEditor } from './expression-editor';
+import { ExpressionError, Expressions, type CompiledExpression } from '@/lib/expressions';
+import type { DerivedColumn, ProcessedFile } from '@/types';
+
+type Cell = string | number | boolean | Date | null;
+
+export interface DerivedColumnRow extends DerivedColumn {
+  id: string;
+  sourceFileId: string;
+}
+
+interface DerivedColumnsPanelProps {
+  sourceFiles: ProcessedFile[];
+  rows: DerivedColumnRow[];
+  targetOptions: string[]; // offered as suggestions; new names are allowed
+  onChange: (rows: DerivedColumnRow[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+/**
+ * Columns an expression may reference: the file's columns and the derived
+ * columns defined before it for the same file
+ */
+function getAvailableColumns(row: DerivedColumnRow, rows: DerivedColumnRow[], sourceFiles: ProcessedFile[]): string[] {
+  const headers = sourceFiles.find(f => f.id === row.sourceFileId)?.parsedData?.headers ?? [];
+  const earlier = rows.slice(0, rows.indexOf(row))
+    .filter(other => other.sourceFileId === row.sourceFileId && other.targetColumn)
+    .map(other => other.targetColumn);
+  return [...headers, ...earlier];
+}
+
+/**
+ * Compiled expression of a derived column, or the reason it cannot be used
+ */
+export function checkDerivedColumn(
+  row: DerivedColumnRow,
+  rows: DerivedColumnRow[],
+  sourceFiles: ProcessedFile[]
+): { compiled: CompiledExpression | null; error: ExpressionError | null } {
+  if (!row.targetColumn.trim()) {
+    return { compiled: null, error: new ExpressionError('Name the target column') };
+  }
+  try {
+    return { compiled: Expressions.compile(row.expression, getAvailableColumns(row, rows, sourceFiles)), error: null };
+  } catch (error) {
+    return {
+      compiled: null,
+      error: error instanceof ExpressionError ? error : new ExpressionError('Invalid expression'),
+    };
+  }
+}
+
+function formatCell(value: Cell): string {
+  if (value === null || value === undefined) return 'null';
+  return value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value);
+}
+
+/**
+ * Values of a derived column for the first rows of its file. Earlier derived
+ * columns of the file are evaluated first so references to them resolve.
+ */
+function getPreview(
+  row: DerivedColumnRow,
+  rows: DerivedColumnRow[],
+  sourceFiles: ProcessedFile[]
+): { scope: Record<string, Cell>; value: Cell; error?: string }[] {
+  const parsedData = sourceFiles.find(f => f.id === row.sourceFileId)?.parsedData;
+  if (!parsedData) return [];
+
+  const chain = rows.slice(0, rows.indexOf(row) + 1)
+    .filter(other => other.sourceFileId === row.sourceFileId)
+    .map(other => ({ row: other, compiled: checkDerivedColumn(other, rows, sourceFiles).compiled }));
+
+  return parsedData.rows.slice(0, PREVIEW_ROWS).map(values => {
+    const scope: Record<string, Cell> = Object.create(null);
+    parsedData.headers.forEach((header, index) => {
+      scope[header] = values[index] ?? null;
+    });
+
+    let result: { scope: Record<string, Cell>; value: Cell; error?: string } = { scope, value: null };
+    chain.forEach(({ row: other, compiled }) => {
+      let value: Cell = null;
+      let error: string | undefined;
+      try {
+        value = compiled ? compiled.evaluate(scope) : null;
+      } catch (e) {
+        error = e instanceof Error ? e.message : 'Evaluation failed';
+      }
+      if (other === row) result = { scope: Object.assign(Object.create(null), scope), value, error };
+      scope[other.targetColumn] = value;
+    });
+    return result;
+  });
+}
+
+export function DerivedColumnsPanel({ sourceFiles, rows, targetOptions, onChange }: DerivedColumnsPanelProps) {
+  const readyFiles = sourceFiles.filter(file => file.parsedData);
+
+  const updateRow = (id: string, updates: Partial<DerivedColumnRow>) => {
+    onChange(rows.map(row => row.id === id ? { ...row, ...updates } : row));
+  };
+
+  const addRow = () => {
+    if (readyFiles.length === 0) return;
+    onChange([...rows, {
+      id: `derived-${Date.now()}`,
+      sourceFileId: readyFiles[0].id,
+      targetColumn: '',
+      expression: '',
+    }]);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Sigma className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">Derived Columns</h4>
+        </div>
+        <Button variant="outline" size="sm" onClick={addRow} disabled={readyFiles.length === 0}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add derived column
+        </Button>
+      </div>
+
+      {rows.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Compute target columns from a formula, e.g. <code>IF(qty &gt; 0, price * qty, 0)</code> or{' '}
+          <code>[First Name] &amp; &quot; &quot; &amp; [Last Name]</code>.
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {rows.map(row => {
+          const { compiled, error } = checkDerivedColumn(row, rows, sourceFiles);
+          const preview = compiled ? getPreview(row, rows, sourceFiles) : [];
+          const listId = `derived-targets-${row.id}`;
+
+          return (
+            <div key={row.id} className="space-y-2 p-3 bg-gray-50 rounded">
+              <div className="flex flex-wrap items-center gap-2">
+                <Select value={row.sourceFileId} onValueChange={(value) => updateRow(row.id, { sourceFileId: value })}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {readyFiles.map(file => (
+                      <SelectItem key={file.id} value={file.id}>{file.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="w-48"
+                  placeholder="Target column"
+                  list={listId}
+                  value={row.targetColumn}
+                  onChange={(e) => updateRow(row.id, { targetColumn: e.target.value })}
+                />
+                <datalist id={listId}>
+                  {targetOptions.map(column => <option key={column} value={column} />)}
+                </datalist>
+                <span className="text-sm text-gray-500">=</span>
+                <div className="flex-1 min-w-64">
+                  <ExpressionEditor
+                    value={row.expression}
+                    onChange={(expression) => updateRow(row.id, { expression })}
+                    columns={getAvailableColumns(row, rows, sourceFiles)}
+                    error={row.expression.trim() || row.targetColumn ? error : null}
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600 hover:text-red-800"
+                  onClick={() => onChange(rows.filter(other => other.id !== row.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              {compiled && preview.length > 0 && (
+                <table className="text-xs">
+                  <thead>
+                    <tr className="text-gray-500">
+                      {compiled.columns.map(column => (
+                        <th key={column} className="text-left pr-4 font-normal">{column}</th>
+                      ))}
+                      <th className="text-left font-medium text-gray-700">{row.targetColumn}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((sample, index) => (
+                      <tr key={index}>
+                        {compiled.columns.map(column => (
+                          <td key={column} className="pr-4 text-gray-600">{formatCell(sample.scope[column] ?? null)}</td>
+                        ))}
+                        <td className={sample.error ? 'text-red-600' : 'font-medium text-gray-900'}>
+                          {sample.error ?? formatCell(sample.value)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,162 @@
+'use client';
+
+import { useRef, useState, type KeyboardEvent } from 'react';
+import { Input } from '@/components/ui/input';
+import { EXPRESSION_FUNCTIONS, Expressions, type ExpressionError } from '@/lib/expressions';
+
+interface ExpressionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  columns: string[]; // columns the expression may reference
+  error?: ExpressionError | null;
+}
+
+interface Completion {
+  label: string;
+  insert: string;
+  detail: string;
+}
+
+const MAX_COMPLETIONS = 8;
+
+/**
+ * The word being typed at the caret: a bare name, or a column name after an
+ * unclosed `[`. Nothing is completed inside text literals.
+ */
+function getWordAt(value: string, caret: number): { start: number; prefix: string; bracketed: boolean } | null {
+  const before = value.slice(0, caret);
+
+  let quote: string | null = null;
+  let bracket = -1;
+  for (let i = 0; i < before.length; i++) {
+    const char = before[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[') {
+      bracket = i;
+    } else if (char === ']') {
+      bracket = -1;
+    }
+  }
+  if (quote) return null;
+  if (bracket !== -1) return { start: bracket, prefix: before.slice(bracket + 1), bracketed: true };
+
+  const match = /[A-Za-z_][A-Za-z0-9_]*$/.exec(before);
+  return match ? { start: match.index, prefix: match[0], bracketed: false } : null;
+}
+
+/**
+ * Single-line formula input that completes column and function names
+ */
+export function ExpressionEditor({ value, onChange, columns, error }: ExpressionEditorProps) {
+  const [caret, setCaret] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const word = isOpen ? getWordAt(value, caret) : null;
+  const completions: Completion[] = word
+    ? [
+        ...columns
+          .filter(column => column.toLowerCase().includes(word.prefix.toLowerCase()))
+          .sort((a, b) =>
+            Number(!a.toLowerCase().startsWith(word.prefix.toLowerCase())) -
+            Number(!b.toLowerCase().startsWith(word.prefix.toLowerCase())))
+          .map(column => ({ label: column, insert: Expressions.formatColumnReference(column), detail: 'column' })),
+        ...(word.bracketed || !word.prefix ? [] : Object.entries(EXPRESSION_FUNCTIONS)
+          .filter(([name]) => name.startsWith(word.prefix.toUpperCase()))
+          .map(([name, fn]) => ({ label: fn.signature, insert: `${name}(`, detail: fn.description }))),
+      ].slice(0, MAX_COMPLETIONS)
+    : [];
+
+  const accept = (completion: Completion) => {
+    if (!word) return;
+    const next = value.slice(0, word.start) + completion.insert + value.slice(caret);
+    const nextCaret = word.start + completion.insert.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setIsOpen(false);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCaret, nextCaret));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (completions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const offset = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + offset + completions.length) % completions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      accept(completions[Math.min(activeIndex, completions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <Input
+          ref={inputRef}
+          className={`font-mono ${error ? 'border-red-400' : ''}`}
+          placeholder='IF(qty > 0, price * qty, 0)'
+          value={value}
+          spellCheck={false}
+          aria-invalid={!!error}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setIsOpen(true);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={(e) => {
+            if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Home' || e.key === 'End') {
+              setCaret(e.currentTarget.selectionStart ?? 0);
+            }
+          }}
+          onClick={(e) => setCaret(e.currentTarget.selectionStart ?? 0)}
+          onBlur={() => setIsOpen(false)}
+        />
+
+        {completions.length > 0 && (
+          <ul className="absolute z-10 left-0 right-0 mt-1 max-h-60 overflow-auto rounded-md border bg-white shadow-md">
+            {completions.map((completion, index) => (
+              <li
+                key={`${completion.detail}-${completion.label}`}
+                className={`px-3 py-1.5 cursor-pointer text-sm ${index === activeIndex ? 'bg-blue-50' : ''}`}
+                // Keep focus in the input so the caret position stays valid
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  accept(completion);
+                }}
+              >
+                <span className="font-mono text-gray-900">{completion.label}</span>
+                <span className="ml-2 text-xs text-gray-500">{completion.detail}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && (
+        <div className="text-xs text-red-600">
+          {error.position !== undefined && value && (
+            <div className="font-mono whitespace-pre text-gray-700 overflow-x-auto">
+              {value.slice(0, error.position)}
+              <span className="bg-red-200 text-red-800">{value[error.position] ?? ' '}</span>
+              {value.slice(error.position + 1)}
+            </div>
+          )}
+          <p>
+            {error.message}
+            {error.position !== undefined && ` (at character ${error.position + 1})`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
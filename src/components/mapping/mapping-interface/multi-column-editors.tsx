@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { Merge, Plus, Split, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { checkSplit } from '@/lib/mapping-utils';
+import type { ColumnCombine, ColumnSplit } from '@/types';
+
+interface CombineSourcesEditorProps {
+  sourceColumn: string;
+  sourceColumns: string[];
+  combine?: ColumnCombine;
+  availableColumns: string[]; // columns of the row's source file
+  onChange: (updates: { sourceColumns?: string[]; combine?: ColumnCombine }) => void;
+}
+
+interface SplitTargetEditorProps {
+  targetColumn: string;
+  targetColumns: string[];
+  split?: ColumnSplit;
+  availableTargets: string[]; // offered as suggestions; new names are allowed
+  onChange: (updates: { targetColumns?: string[]; split?: ColumnSplit }) => void;
+}
+
+/**
+ * Chips for the extra columns of a many-to-one or one-to-many mapping
+ */
+function ColumnChips({ columns, onRemove }: { columns: string[]; onRemove: (column: string) => void }) {
+  return (
+    <>
+      {columns.map(column => (
+        <Badge key={column} variant="outline" className="text-xs">
+          {column}
+          <button className="ml-1 text-gray-500 hover:text-gray-900" onClick={() => onRemove(column)}>
+            <X className="w-3 h-3" />
+          </button>
+        </Badge>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Feed more source columns into a mapping's target
+ */
+export function CombineSourcesEditor({
+  sourceColumn,
+  sourceColumns,
+  combine,
+  availableColumns,
+  onChange,
+}: CombineSourcesEditorProps) {
+  const addable = availableColumns.filter(column => column !== sourceColumn && !sourceColumns.includes(column));
+
+  const setSources = (columns: string[]) => {
+    onChange(columns.length > 0
+      ? { sourceColumns: columns, combine: combine ?? { kind: 'concat', separator: ' ' } }
+      : { sourceColumns: undefined, combine: undefined });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Merge className="w-4 h-4" />
+        <span>Combine sources</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="text-xs">{sourceColumn}</Badge>
+        <ColumnChips
+          columns={sourceColumns}
+          onRemove={(column) => setSources(sourceColumns.filter(c => c !== column))}
+        />
+        {addable.length > 0 && (
+          <Select value="" onValueChange={(column) => setSources([...sourceColumns, column])}>
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue placeholder="Add source" />
+            </SelectTrigger>
+            <SelectContent>
+              {addable.map(column => (
+                <SelectItem key={column} value={column}>{column}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {combine && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={combine.kind}
+            onValueChange={(kind) => onChange({
+              combine: kind === 'concat' ? { kind: 'concat', separator: ' ' } : { kind: 'coalesce' }
+            })}
+          >
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="concat">Concatenate</SelectItem>
+              <SelectItem value="coalesce">First non-empty</SelectItem>
+            </SelectContent>
+          </Select>
+          {combine.kind === 'concat' && (
+            <Input
+              className="w-20 h-8"
+              placeholder="Separator"
+              value={combine.separator}
+              onChange={(e) => onChange({ combine: { kind: 'concat', separator: e.target.value } })}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Split a mapping's source value over more target columns
+ */
+export function SplitTargetEditor({
+  targetColumn,
+  targetColumns,
+  split,
+  availableTargets,
+  onChange,
+}: SplitTargetEditorProps) {
+  const [newTarget, setNewTarget] = useState('');
+  const listId = `split-targets-${targetColumn}`;
+
+  const regexError = split ? checkSplit(split) : null;
+
+  const setTargets = (columns: string[]) => {
+    onChange(columns.length > 0
+      ? { targetColumns: columns, split: split ?? { kind: 'delimiter', delimiter: ',' } }
+      : { targetColumns: undefined, split: undefined });
+  };
+
+  const addTarget = () => {
+    const name = newTarget.trim();
+    if (!name || name === targetColumn || targetColumns.includes(name)) return;
+    setTargets([...targetColumns, name]);
+    setNewTarget('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+        <Split className="w-4 h-4" />
+        <span>Split into targets</span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline" className="text-xs">{targetColumn}</Badge>
+        <ColumnChips
+          columns={targetColumns}
+          onRemove={(column) => setTargets(targetColumns.filter(c => c !== column))}
+        />
+        <Input
+          className="w-36 h-8"
+          placeholder="Add target"
+          list={listId}
+          value={newTarget}
+          onChange={(e) => setNewTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addTarget()}
+        />
+        <datalist id={listId}>
+          {availableTargets.map(column => <option key={column} value={column} />)}
+        </datalist>
+        <Button variant="ghost" size="sm" onClick={addTarget} disabled={!newTarget.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {split && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={split.kind}
+            onValueChange={(kind) => onChange({
+              split: kind === 'delimiter' ? { kind: 'delimiter', delimiter: ',' } : { kind: 'regex', pattern: '' }
+            })}
+          >
+            <SelectTrigger className="w-36 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="delimiter">Delimiter</SelectItem>
+              <SelectItem value="regex">Regex</SelectItem>
+            </SelectContent>
+          </Select>
+          {split.kind === 'delimiter' ? (
+            <Input
+              className="w-20 h-8"
+              placeholder=","
+              value={split.delimiter}
+              onChange={(e) => onChange({ split: { kind: 'delimiter', delimiter: e.target.value } })}
+            />
+          ) : (
+            <Input
+              className="w-64 h-8"
+              placeholder="^(.*), (.*) (\d{5})$"
+              value={split.pattern}
+              onChange={(e) => onChange({ split: { kind: 'regex', pattern: e.target.value } })}
+            />
+          )}
+        </div>
+      )}
+      {regexError && <p className="text-xs text-red-600">{regexError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TransformRegistry, type TransformDefinition, type TransformParams } from '@/lib/transform-registry';
+
+interface TransformParamsFormProps {
+  transform: TransformDefinition;
+  params?: TransformParams;
+  onChange: (params: TransformParams | undefined) => void;
+}
+
+/**
+ * Form for a transform's parameters, built from the schema it declares.
+ * Empty fields are not stored and fall back to the default, which they show
+ * as their placeholder.
+ */
+export function TransformParamsForm({ transform, params, onChange }: TransformParamsFormProps) {
+  const resolved = TransformRegistry.resolveParams(transform, params);
+  const problem = TransformRegistry.validate(transform.id, params);
+
+  const setParam = (name: string, value: string | number | boolean | undefined) => {
+    const next = { ...params };
+    if (value === undefined || value === '') {
+      delete next[name];
+    } else {
+      next[name] = value;
+    }
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  if (transform.parameters.length === 0) return null;
+
+  return (
+    <div className="space-y-1 mt-2">
+      {transform.parameters.map(parameter => {
+        const value = resolved[parameter.name];
+        const stored = params?.[parameter.name];
+
+        if (parameter.type === 'boolean') {
+          return (
+            <label key={parameter.name} className="flex items-center space-x-1 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={Boolean(value)}
+                onChange={(e) => setParam(parameter.name, e.target.checked)}
+              />
+              <span>{parameter.label}</span>
+            </label>
+          );
+        }
+
+        let field: ReactNode;
+        switch (parameter.type) {
+          case 'select':
+            field = (
+              <Select value={String(value ?? '')} onValueChange={(option) => setParam(parameter.name, option)}>
+                <SelectTrigger className="w-28 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {parameter.options.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            );
+            break;
+
+          case 'number':
+            field = (
+              <Input
+                type="number"
+                className="w-28 h-8 text-xs"
+                placeholder={parameter.default !== undefined ? String(parameter.default) : undefined}
+                min={parameter.min}
+                max={parameter.max}
+                step={parameter.step}
+                value={stored === undefined ? '' : String(stored)}
+                onChange={(e) => setParam(parameter.name, e.target.value === '' ? undefined : Number(e.target.value))}
+              />
+            );
+            break;
+
+          case 'text':
+            field = (
+              <textarea
+                className="w-28 min-h-16 rounded-md border px-2 py-1 font-mono text-xs"
+                placeholder={parameter.default || parameter.placeholder}
+                value={String(stored ?? '')}
+                onChange={(e) => setParam(parameter.name, e.target.value)}
+              />
+            );
+            break;
+
+          default:
+            field = (
+              <Input
+                className="w-28 h-8 text-xs"
+                placeholder={parameter.default || parameter.placeholder}
+                value={String(stored ?? '')}
+                onChange={(e) => setParam(parameter.name, e.target.value)}
+              />
+            );
+        }
+
+        return (
+          <label
+            key={parameter.name}
+            className="flex items-start gap-1 text-xs text-gray-600"
+            title={parameter.description}
+          >
+            <span className="w-16 pt-2">{parameter.label}</span>
+            {field}
+          </label>
+        );
+      })}
+      {problem && <p className="text-xs text-red-600">{problem}</p>}
+    </div>
+  );
+}
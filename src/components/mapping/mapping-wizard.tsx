@@ -6,8 +6,20 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { ColumnMappingInterface } from './mapping-interface/column-mapping-interface';
+import { KeyOverlapPanel } from './preview/key-overlap-panel';
+import { TargetSchemaEditor } from './schema/target-schema-editor';
+import { SynonymDictionaryManager } from './vocabulary/synonym-dictionary-manager';
 import { DataMerger, type MergeOptions, type MergeResult } from '@/lib/data-merging';
+import { KeyAnalyzer } from '@/lib/key-analysis';
+import { getOutputColumns } from '@/lib/mapping-utils';
 import { useAppStore } from '@/store';
 import type { ColumnMapping, ProcessedDataset } from '@/types';
 
@@ -24,6 +36,9 @@ interface StepInfo {
   icon: React.ReactNode;
 }
 
+// Select value standing in for no join key
+const NO_JOIN_KEY = '__none__';
+
 export function MappingWizard({ onComplete }: MappingWizardProps) {
   const [currentStep, setCurrentStep] = useState<MappingStep>('configure');
   const [mappings, setMappings] = useState<ColumnMapping[]>([]);
@@ -31,7 +46,7 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
 
-  const { files, addDataset, setCurrentStep: setGlobalStep } = useAppStore();
+  const { files, targetSchema, addDataset, setCurrentStep: setGlobalStep } = useAppStore();
 
   // Get only ready files
   const readyFiles = files.filter(f => f.status === 'ready' && f.parsedData);
@@ -83,9 +98,7 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
     // Get all target columns from mappings
     const allTargetColumns = new Set<string>();
     mappings.forEach(mapping => {
-      mapping.mappings.forEach(map => {
-        allTargetColumns.add(map.targetColumn);
-      });
+      getOutputColumns(mapping).forEach(column => allTargetColumns.add(column));
     });
 
     // Calculate estimated stats
@@ -93,17 +106,27 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
       sum + (file.parsedData?.rowCount || 0), 0
     );
 
-    const estimatedColumns = allTargetColumns.size;
+    // A target schema fixes the output columns and their order
+    const targetColumns = targetSchema
+      ? targetSchema.columns.map(column => column.name)
+      : Array.from(allTargetColumns).sort();
     const filesCount = mappings.length;
 
     return {
-      columns: estimatedColumns,
+      columns: targetColumns.length,
       estimatedRows: totalRows,
       sourceFiles: filesCount,
-      targetColumns: Array.from(allTargetColumns).sort()
+      targetColumns
     };
   };
 
+  /**
+   * Apply join settings to every file's mapping
+   */
+  const updateJoinSettings = (updates: Pick<ColumnMapping, 'joinType' | 'joinKey'>) => {
+    setMappings(prev => prev.map(mapping => ({ ...mapping, ...updates })));
+  };
+
   /**
    * Perform actual data merge
    */
@@ -132,7 +155,8 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
         joinKey: mappings[0]?.joinKey,
         handleDuplicates: 'keep_first',
         validateTypes: true,
-        maxRows: 50000 // Limit for performance
+        maxRows: 50000, // Limit for performance
+        targetSchema
       };
 
       const result = await DataMerger.mergeFiles(readyFiles, mappings, mergeOptions);
@@ -207,6 +231,9 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
   };
 
   const preview = generatePreview();
+  const joinType = mappings[0]?.joinType || 'inner';
+  const joinKey = mappings[0]?.joinKey;
+  const candidateKeys = KeyAnalyzer.getCandidateKeys(mappings);
 
   if (readyFiles.length === 0) {
     return (
@@ -287,10 +314,14 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
       {/* Step Content */}
       <div className="min-h-96">
         {currentStep === 'configure' && (
-          <ColumnMappingInterface
-            sourceFiles={readyFiles}
-            onMappingComplete={handleMappingComplete}
-          />
+          <div className="space-y-6">
+            <TargetSchemaEditor sourceFiles={readyFiles} />
+            <SynonymDictionaryManager />
+            <ColumnMappingInterface
+              sourceFiles={readyFiles}
+              onMappingComplete={handleMappingComplete}
+            />
+          </div>
         )}
 
         {currentStep === 'preview' && preview && (
@@ -331,6 +362,62 @@ export function MappingWizard({ onComplete }: MappingWizardProps) {
                 ))}
               </div>
             </Card>
+
+            {preview.sourceFiles > 1 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Card className="p-6 space-y-4">
+                  <h3 className="font-semibold text-gray-900">Join Settings</h3>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">
+                      Join Type
+                    </label>
+                    <Select
+                      value={joinType}
+                      onValueChange={(value) => updateJoinSettings({ joinType: value as MergeOptions['joinType'], joinKey })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="inner">Inner Join</SelectItem>
+                        <SelectItem value="left">Left Join</SelectItem>
+                        <SelectItem value="right">Right Join</SelectItem>
+                        <SelectItem value="full">Full Join</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700 mb-2 block">
+                      Join Key
+                    </label>
+                    <Select
+                      value={joinKey ?? NO_JOIN_KEY}
+                      onValueChange={(value) => updateJoinSettings({ joinType, joinKey: value === NO_JOIN_KEY ? undefined : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_JOIN_KEY}>Append rows (no key)</SelectItem>
+                        {candidateKeys.map(key => (
+                          <SelectItem key={key} value={key}>{key}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </Card>
+
+                <div className="md:col-span-2">
+                  {joinKey ? (
+                    <KeyOverlapPanel files={readyFiles} mappings={mappings} joinKey={joinKey} />
+                  ) : (
+                    <Card className="p-6 text-sm text-gray-500">
+                      Choose a join key to check how well it links your files.
+                    </Card>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -0,0 +1,121 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AlertTriangle, CheckCircle, KeyRound } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { KeyAnalyzer } from '@/lib/key-analysis';
+import type { ColumnMapping, KeyOverlapAnalysis, KeySideStats, ProcessedFile } from '@/types';
+
+interface KeyOverlapPanelProps {
+  files: ProcessedFile[];
+  mappings: ColumnMapping[];
+  joinKey: string;
+}
+
+const RELATIONSHIP_LABELS: Record<KeyOverlapAnalysis['relationship'], string> = {
+  '1:1': 'One to one',
+  '1:N': 'One to many',
+  'N:1': 'Many to one',
+  'N:M': 'Many to many',
+};
+
+export function KeyOverlapPanel({ files, mappings, joinKey }: KeyOverlapPanelProps) {
+  const analyses = useMemo(
+    () => KeyAnalyzer.analyzeJoinKey(files, mappings, joinKey),
+    [files, mappings, joinKey]
+  );
+
+  if (analyses.length === 0) {
+    return (
+      <Card className="p-4 text-sm text-gray-500">
+        No two files map a column to &quot;{joinKey}&quot;, so it cannot link them.
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {analyses.map(analysis => (
+        <Card key={`${analysis.left.fileId}-${analysis.right.fileId}`} className="p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2 min-w-0">
+              <KeyRound className="w-4 h-4 text-blue-600 flex-shrink-0" />
+              <span className="text-sm font-medium text-gray-900 truncate">
+                {analysis.left.fileName} ↔ {analysis.right.fileName}
+              </span>
+            </div>
+            <Badge
+              variant="outline"
+              className={analysis.relationship === '1:1' ? '' : 'bg-orange-50 text-orange-700'}
+            >
+              {analysis.relationship} • {RELATIONSHIP_LABELS[analysis.relationship]}
+            </Badge>
+          </div>
+
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-xs text-gray-600">
+              <span>Key overlap</span>
+              <span>
+                {analysis.matchedKeys.toLocaleString()} matching keys ({Math.round(analysis.overlapPercentage)}%)
+              </span>
+            </div>
+            <Progress value={analysis.overlapPercentage} className="h-2" />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <KeySideSummary side={analysis.left} />
+            <KeySideSummary side={analysis.right} />
+          </div>
+
+          {analysis.relationship !== '1:1' && (
+            <div className="flex items-start space-x-2 text-xs text-orange-700">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              <span>Repeated keys collapse to a single row per key when the files are joined.</span>
+            </div>
+          )}
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function KeySideSummary({ side }: { side: KeySideStats }) {
+  const isUnique = side.duplicateKeyCount === 0;
+
+  return (
+    <div className="p-3 bg-gray-50 rounded space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900 truncate">{side.fileName}</span>
+        <span className="text-gray-500 truncate ml-2">{side.column}</span>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        {isUnique ? (
+          <CheckCircle className="w-3 h-3 text-green-600" />
+        ) : (
+          <AlertTriangle className="w-3 h-3 text-orange-600" />
+        )}
+        <span className="text-gray-700">
+          {isUnique
+            ? `${side.distinctCount.toLocaleString()} unique keys`
+            : `${side.duplicateKeyCount.toLocaleString()} of ${side.distinctCount.toLocaleString()} keys repeat`}
+        </span>
+      </div>
+
+      {side.nullCount > 0 && (
+        <div className="text-gray-600">{side.nullCount.toLocaleString()} rows have no key</div>
+      )}
+
+      <div className={side.orphanCount > 0 ? 'text-orange-700' : 'text-gray-600'}>
+        {side.orphanCount.toLocaleString()} keys with no match on the other side
+      </div>
+      {side.orphanExamples.length > 0 && (
+        <div className="font-mono text-gray-500 truncate">
+          e.g. {side.orphanExamples.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
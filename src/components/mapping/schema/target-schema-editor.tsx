@@ -0,0 +1,229 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { ChevronDown, ChevronUp, Download, Plus, Table2, Trash2, Upload } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TargetSchemas } from '@/lib/target-schema';
+import { useAppStore } from '@/store';
+import type { DataType, ProcessedFile, TargetColumn } from '@/types';
+
+interface TargetSchemaEditorProps {
+  sourceFiles: ProcessedFile[];
+}
+
+const COLUMN_TYPES: DataType[] = ['string', 'number', 'date', 'boolean', 'mixed'];
+
+export function TargetSchemaEditor({ sourceFiles }: TargetSchemaEditorProps) {
+  const [newColumnName, setNewColumnName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { targetSchema, setTargetSchema } = useAppStore();
+
+  const updateColumns = (columns: TargetColumn[]) => {
+    if (targetSchema) setTargetSchema({ ...targetSchema, columns });
+  };
+
+  const updateColumn = (index: number, updates: Partial<TargetColumn>) => {
+    if (!targetSchema) return;
+    updateColumns(targetSchema.columns.map((column, i) => i === index ? { ...column, ...updates } : column));
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    if (!targetSchema) return;
+    const columns = [...targetSchema.columns];
+    const [column] = columns.splice(index, 1);
+    columns.splice(index + offset, 0, column);
+    updateColumns(columns);
+  };
+
+  const addColumn = () => {
+    const name = newColumnName.trim();
+    if (!name) return;
+
+    const columns = targetSchema?.columns ?? [];
+    if (columns.some(column => column.name === name)) return;
+
+    setTargetSchema({
+      name: targetSchema?.name ?? 'Target schema',
+      columns: [...columns, { name, type: 'string', required: false }],
+    });
+    setNewColumnName('');
+  };
+
+  const importSchema = async (file: File) => {
+    try {
+      setTargetSchema(TargetSchemas.fromJsonSchema(await file.text(), file.name.replace(/\.[^.]+$/, '')));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import schema');
+    }
+  };
+
+  const exportSchema = () => {
+    if (!targetSchema) return;
+    const fileName = `${targetSchema.name.replace(/[^\w-]+/g, '_')}.schema.json`;
+    saveAs(new Blob([TargetSchemas.toJsonSchema(targetSchema)], { type: 'application/json' }), fileName);
+  };
+
+  const applySampleFile = (fileId: string) => {
+    const file = sourceFiles.find(f => f.id === fileId);
+    if (file?.parsedData) setTargetSchema(TargetSchemas.fromSampleFile(file));
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center space-x-2">
+          <Table2 className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">Target Schema</h4>
+          {targetSchema && (
+            <Badge variant="outline" className="text-xs">
+              {targetSchema.columns.length} columns, {targetSchema.columns.filter(c => c.required).length} required
+            </Badge>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value="" onValueChange={applySampleFile}>
+            <SelectTrigger className="w-44">
+              <SelectValue placeholder="From sample file" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceFiles.map(file => (
+                <SelectItem key={file.id} value={file.id}>{file.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import JSON Schema
+          </Button>
+          {targetSchema && (
+            <>
+              <Button variant="outline" size="sm" onClick={exportSchema}>
+                <Download className="w-4 h-4 mr-1" />
+                Export
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setTargetSchema(undefined)}>
+                Clear
+              </Button>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importSchema(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-2">{importError}</p>}
+
+      {!targetSchema && (
+        <p className="text-sm text-gray-600 mb-2">
+          Without a target schema the output has every uploaded column. Define one to fix the
+          output&apos;s columns, types and order.
+        </p>
+      )}
+
+      {targetSchema && (
+        <div className="space-y-2">
+          <Input
+            className="w-64"
+            value={targetSchema.name}
+            onChange={(e) => setTargetSchema({ ...targetSchema, name: e.target.value })}
+          />
+
+          {targetSchema.columns.map((column, index) => (
+            <div key={column.name} className="flex flex-wrap items-center gap-2 p-2 bg-gray-50 rounded">
+              <div className="flex flex-col">
+                <button
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  disabled={index === 0}
+                  onClick={() => moveColumn(index, -1)}
+                >
+                  <ChevronUp className="w-3 h-3" />
+                </button>
+                <button
+                  className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                  disabled={index === targetSchema.columns.length - 1}
+                  onClick={() => moveColumn(index, 1)}
+                >
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+              </div>
+
+              <span className="w-40 text-sm font-medium text-gray-900 truncate">{column.name}</span>
+
+              <Select value={column.type} onValueChange={(value) => updateColumn(index, { type: value as DataType })}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COLUMN_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <label className="flex items-center space-x-1 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={column.required}
+                  onChange={(e) => updateColumn(index, { required: e.target.checked })}
+                />
+                <span>Required</span>
+              </label>
+
+              <Input
+                className="flex-1 min-w-40"
+                placeholder="Description"
+                value={column.description ?? ''}
+                onChange={(e) => updateColumn(index, { description: e.target.value || undefined })}
+              />
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateColumns(targetSchema.columns.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 pt-2">
+        <Input
+          className="w-56"
+          placeholder="New column name"
+          value={newColumnName}
+          onChange={(e) => setNewColumnName(e.target.value)}
+        />
+        <Button size="sm" onClick={addColumn} disabled={!newColumnName.trim()}>
+          <Plus className="w-4 h-4 mr-1" />
+          Add column
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { Download, LayoutTemplate, Save, Trash2, Upload } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { generateId } from '@/lib/file-utils';
+import { MappingTemplates } from '@/lib/mapping-templates';
+import { useAppStore } from '@/store';
+import type { ColumnMapping, MappingTemplate, ProcessedFile, TemplateDrift, TemplateMatch } from '@/types';
+
+interface MappingTemplatePanelProps {
+  sourceFiles: ProcessedFile[];
+  fileMappings: Record<string, ColumnMapping['mappings']>; // current mappings per source file id
+  templateMatches: Record<string, TemplateMatch>; // templates applied per source file id
+}
+
+/**
+ * One line per kind of drift, empty when the upload matches the template exactly
+ */
+const describeDrift = (drift: TemplateDrift): string[] => [
+  ...(drift.renamedColumns.length > 0
+    ? [`Renamed: ${drift.renamedColumns.map(r => `${r.from} → ${r.to}`).join(', ')}`]
+    : []),
+  ...(drift.newColumns.length > 0 ? [`New: ${drift.newColumns.join(', ')}`] : []),
+  ...(drift.missingColumns.length > 0 ? [`Missing: ${drift.missingColumns.join(', ')}`] : []),
+];
+
+export function MappingTemplatePanel({ sourceFiles, fileMappings, templateMatches }: MappingTemplatePanelProps) {
+  const [templateNames, setTemplateNames] = useState<Record<string, string>>({});
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { mappingTemplates, saveMappingTemplate, removeMappingTemplate } = useAppStore();
+
+  const saveTemplate = (file: ProcessedFile) => {
+    const name = (templateNames[file.id] ?? templateMatches[file.id]?.template.name ?? file.name).trim();
+    if (!name || !file.parsedData) return;
+
+    saveMappingTemplate({
+      id: generateId(),
+      name,
+      headers: file.parsedData.headers,
+      mappings: fileMappings[file.id] ?? [],
+      createdAt: Date.now(),
+    });
+  };
+
+  const importTemplate = async (file: File) => {
+    try {
+      const content = MappingTemplates.parse(await file.text());
+      saveMappingTemplate({ ...content, id: generateId() });
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import template');
+    }
+  };
+
+  const exportTemplate = (template: MappingTemplate) => {
+    const fileName = `${template.name.replace(/[^\w-]+/g, '_')}.template.json`;
+    saveAs(new Blob([MappingTemplates.serialize(template)], { type: 'application/json' }), fileName);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <LayoutTemplate className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">Mapping Templates</h4>
+          <Badge variant="outline" className="text-xs">{mappingTemplates.length} saved</Badge>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importTemplate(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-2">{importError}</p>}
+
+      <div className="space-y-3">
+        {sourceFiles.map(file => {
+          const match = templateMatches[file.id];
+          const drift = match ? describeDrift(match.drift) : [];
+
+          return (
+            <div key={file.id} className="p-2 bg-gray-50 rounded space-y-1">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <span className="text-sm font-medium text-gray-900 truncate">{file.name}</span>
+                  {match && (
+                    <Badge variant="outline" className="ml-2 text-xs bg-green-100 text-green-800">
+                      Template &quot;{match.template.name}&quot; applied ({Math.round(match.score * 100)}%)
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    className="w-48 h-8"
+                    placeholder="Template name"
+                    value={templateNames[file.id] ?? match?.template.name ?? file.name}
+                    onChange={(e) => setTemplateNames(names => ({ ...names, [file.id]: e.target.value }))}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => saveTemplate(file)}
+                    disabled={(fileMappings[file.id] ?? []).length === 0}
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    Save
+                  </Button>
+                </div>
+              </div>
+
+              {drift.map(line => (
+                <p key={line} className="text-xs text-orange-700">{line}</p>
+              ))}
+            </div>
+          );
+        })}
+
+        {mappingTemplates.map(template => (
+          <div key={template.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              <span className="text-gray-900 truncate">{template.name}</span>
+              <span className="text-xs text-gray-500">
+                {template.headers.length} columns, {template.mappings.length} mappings
+              </span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button variant="ghost" size="sm" title="Export JSON" onClick={() => exportTemplate(template)}>
+                <Download className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => removeMappingTemplate(template.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-gray-500 mt-3">
+        Templates apply automatically when an upload&apos;s headers match. Run Auto-Map after importing one.
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { saveAs } from 'file-saver';
+import { BookOpen, Download, Plus, Trash2, Upload } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { generateId } from '@/lib/file-utils';
+import {
+  GENERAL_PACK_ID,
+  SYNONYM_PACKS,
+  parseDictionary,
+  serializeDictionary,
+  type DictionaryFormat,
+} from '@/lib/synonym-dictionaries';
+import { useAppStore } from '@/store';
+import type { SynonymDictionary } from '@/types';
+
+export function SynonymDictionaryManager() {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [termsText, setTermsText] = useState('');
+  const [category, setCategory] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const {
+    synonymDictionaries,
+    addSynonymDictionary,
+    updateSynonymDictionary,
+    removeSynonymDictionary,
+  } = useAppStore();
+
+  const availablePacks = SYNONYM_PACKS.filter(pack =>
+    !synonymDictionaries.some(dictionary => dictionary.id === pack.id)
+  );
+  const editing = synonymDictionaries.find(dictionary => dictionary.id === editingId);
+  const draftTerms = termsText.split(',').map(term => term.trim()).filter(Boolean);
+
+  // Packs keep their id so each can only be installed once
+  const installPack = (packId: string) => {
+    const pack = SYNONYM_PACKS.find(p => p.id === packId);
+    if (!pack) return;
+    addSynonymDictionary({ ...pack, enabled: true, groups: pack.groups.map(group => ({ ...group })) });
+  };
+
+  const createDictionary = () => {
+    const dictionary: SynonymDictionary = { id: generateId(), name: 'Custom terms', enabled: true, groups: [] };
+    addSynonymDictionary(dictionary);
+    setEditingId(dictionary.id);
+  };
+
+  const importDictionary = async (file: File) => {
+    const format: DictionaryFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    const fallbackName = file.name.replace(/\.[^.]+$/, '');
+
+    try {
+      const content = parseDictionary(await file.text(), format, fallbackName);
+      addSynonymDictionary({ ...content, id: generateId(), enabled: true });
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import dictionary');
+    }
+  };
+
+  const exportDictionary = (dictionary: SynonymDictionary, format: DictionaryFormat) => {
+    const type = format === 'json' ? 'application/json' : 'text/csv';
+    const fileName = `${dictionary.name.replace(/[^\w-]+/g, '_')}.${format}`;
+    saveAs(new Blob([serializeDictionary(dictionary, format)], { type }), fileName);
+  };
+
+  const addGroup = () => {
+    if (!editing || draftTerms.length < 2) return;
+    updateSynonymDictionary(editing.id, {
+      groups: [...editing.groups, { terms: draftTerms, category: category.trim() || undefined }],
+    });
+    setTermsText('');
+  };
+
+  const removeGroup = (index: number) => {
+    if (!editing) return;
+    updateSynonymDictionary(editing.id, { groups: editing.groups.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center space-x-2">
+          <BookOpen className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">Vocabularies</h4>
+          <Badge variant="outline" className="text-xs">
+            {synonymDictionaries.filter(dictionary => dictionary.enabled).length} enabled
+          </Badge>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {availablePacks.length > 0 && (
+            <Select value="" onValueChange={installPack}>
+              <SelectTrigger className="w-44">
+                <SelectValue placeholder="Add domain pack" />
+              </SelectTrigger>
+              <SelectContent>
+                {availablePacks.map(pack => (
+                  <SelectItem key={pack.id} value={pack.id}>{pack.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </Button>
+          <Button variant="outline" size="sm" onClick={createDictionary}>
+            <Plus className="w-4 h-4 mr-1" />
+            New
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importDictionary(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {importError && <p className="text-sm text-red-600 mb-2">{importError}</p>}
+
+      {synonymDictionaries.length === 0 && (
+        <p className="text-sm text-gray-600">
+          Matching uses the general business terms. Add a domain pack or your own dictionary
+          to teach it your column names.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {synonymDictionaries.map(dictionary => (
+          <div key={dictionary.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+            <div className="flex items-center space-x-2 min-w-0">
+              <button
+                className="text-sm font-medium text-gray-900 truncate hover:underline"
+                onClick={() => setEditingId(editingId === dictionary.id ? null : dictionary.id)}
+              >
+                {dictionary.name}
+              </button>
+              {dictionary.domain && (
+                <Badge variant="outline" className="text-xs">{dictionary.domain}</Badge>
+              )}
+              <span className="text-xs text-gray-500">{dictionary.groups.length} groups</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Button
+                variant={dictionary.enabled ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => updateSynonymDictionary(dictionary.id, { enabled: !dictionary.enabled })}
+              >
+                {dictionary.enabled ? 'Enabled' : 'Disabled'}
+              </Button>
+              <Button variant="ghost" size="sm" title="Export JSON" onClick={() => exportDictionary(dictionary, 'json')}>
+                <Download className="w-4 h-4 mr-1" />
+                JSON
+              </Button>
+              <Button variant="ghost" size="sm" title="Export CSV" onClick={() => exportDictionary(dictionary, 'csv')}>
+                <Download className="w-4 h-4 mr-1" />
+                CSV
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => removeSynonymDictionary(dictionary.id)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <div className="mt-4 border-t pt-3 space-y-2">
+          <div className="flex items-center space-x-2">
+            <Input
+              className="w-56"
+              value={editing.name}
+              onChange={(e) => updateSynonymDictionary(editing.id, { name: e.target.value })}
+            />
+            {editing.id === GENERAL_PACK_ID && (
+              <span className="text-xs text-gray-500">Replaces the built-in general terms</span>
+            )}
+          </div>
+
+          {editing.groups.map((group, index) => (
+            <div key={index} className="flex items-center justify-between text-sm">
+              <div className="flex items-center space-x-2 min-w-0">
+                {group.category && (
+                  <Badge variant="outline" className="text-xs">{group.category}</Badge>
+                )}
+                <span className="text-gray-900 truncate">{group.terms.join(' = ')}</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => removeGroup(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <Input
+              className="w-72"
+              placeholder="SKU, article number, item code"
+              value={termsText}
+              onChange={(e) => setTermsText(e.target.value)}
+            />
+            <Input
+              className="w-36"
+              placeholder="Category (optional)"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            />
+            <Button size="sm" onClick={addGroup} disabled={draftTerms.length < 2}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add terms
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
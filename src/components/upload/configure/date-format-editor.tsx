@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, AlertTriangle, CalendarDays } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DATE_PATTERNS } from '@/lib/date-utils';
+import { processFileInWorker } from '@/lib/file-worker';
+import { useAppStore } from '@/store';
+import type { ProcessedFile } from '@/types';
+
+interface DateFormatEditorProps {
+  file: ProcessedFile;
+}
+
+// Select value standing in for a null override
+const NOT_A_DATE = 'none';
+
+export function DateFormatEditor({ file }: DateFormatEditorProps) {
+  const [overrides, setOverrides] = useState<Record<string, string | null>>(
+    file.parseOptions?.datePatterns ?? {}
+  );
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const { updateFile } = useAppStore();
+
+  // The raw bytes are only available while the original upload is in memory
+  const canReparse = file.content instanceof Blob;
+  const { columnTypes } = file.parsedData;
+
+  // Date columns plus any column the user has already overridden
+  const dateColumns = columnTypes.filter(col => col.dateFormat || col.name in overrides);
+  const otherColumns = columnTypes.filter(col => !dateColumns.includes(col));
+  const hasChanges = JSON.stringify(overrides) !== JSON.stringify(file.parseOptions?.datePatterns ?? {});
+
+  const setPattern = (column: string, value: string) => {
+    setOverrides(prev => ({ ...prev, [column]: value === NOT_A_DATE ? null : value }));
+  };
+
+  const applyPatterns = async () => {
+    setIsApplying(true);
+
+    const result = await processFileInWorker(file, { ...file.parseOptions, datePatterns: overrides });
+    if (result.status === 'error') {
+      setApplyError(result.error || 'File could not be parsed with these date formats');
+    } else {
+      updateFile(file.id, result);
+      setApplyError(null);
+    }
+
+    setIsApplying(false);
+  };
+
+  const formatSample = (value: unknown): string => {
+    if (!(value instanceof Date)) return value === null || value === undefined ? '' : String(value);
+
+    // Spell the month out so a day/month swap is obvious
+    return value.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <CalendarDays className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">{file.name}</h4>
+        </div>
+        <Button
+          size="sm"
+          onClick={applyPatterns}
+          disabled={!canReparse || !hasChanges || isApplying}
+        >
+          {isApplying ? 'Re-parsing...' : 'Apply'}
+        </Button>
+      </div>
+
+      {applyError && (
+        <div className="flex items-center space-x-2 p-3 mb-3 bg-red-50 rounded text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span>{applyError}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {dateColumns.map(col => {
+          const override = overrides[col.name];
+          const value = override === null ? NOT_A_DATE : override ?? col.dateFormat?.pattern ?? NOT_A_DATE;
+
+          return (
+            <div key={col.name} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-gray-900 truncate">{col.name}</span>
+                  {col.dateFormat?.ambiguous && override === undefined && (
+                    <Badge variant="outline" className="text-xs bg-orange-50 text-orange-700">
+                      <AlertTriangle className="w-3 h-3 mr-1" />
+                      Ambiguous
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {col.samples.slice(0, 3).map(formatSample).join(', ')}
+                  {col.dateFormat?.ambiguous && override === undefined &&
+                    ` • could also be ${col.dateFormat.alternatives?.join(' or ')}`}
+                </div>
+              </div>
+
+              <Select
+                value={value}
+                onValueChange={(pattern) => setPattern(col.name, pattern)}
+                disabled={!canReparse}
+              >
+                <SelectTrigger className="w-52">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NOT_A_DATE}>Not a date</SelectItem>
+                  {DATE_PATTERNS.map(pattern => (
+                    <SelectItem key={pattern.id} value={pattern.id}>
+                      {pattern.id} ({pattern.example})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          );
+        })}
+
+        {otherColumns.length > 0 && canReparse && (
+          <Select value="" onValueChange={(column) => setPattern(column, DATE_PATTERNS[0].id)}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Read another column as dates..." />
+            </SelectTrigger>
+            <SelectContent>
+              {otherColumns.map(col => (
+                <SelectItem key={col.name} value={col.name}>{col.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, Languages } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { readTextSample } from '@/lib/file-utils';
+import { processFileInWorker } from '@/lib/file-worker';
+import { SUPPORTED_ENCODINGS } from '@/lib/encoding-utils';
+import { useAppStore } from '@/store';
+import type { ProcessedFile } from '@/types';
+
+interface EncodingSelectorProps {
+  file: ProcessedFile;
+  previewLines?: number;
+}
+
+export function EncodingSelector({ file, previewLines = 5 }: EncodingSelectorProps) {
+  const [encoding, setEncoding] = useState(file.encoding || 'utf-8');
+  const [sample, setSample] = useState<string[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const { updateFile } = useAppStore();
+
+  // The raw bytes are only available while the original upload is in memory
+  const canReparse = file.content instanceof Blob;
+
+  // Live preview of the first lines decoded with the chosen encoding
+  useEffect(() => {
+    if (!canReparse) return;
+    
+    readTextSample(file.content, encoding, 8 * 1024).then(lines => {
+      setSample(lines.filter(line => line.trim() !== '').slice(0, previewLines));
+    });
+  }, [file.content, encoding, canReparse, previewLines]);
+
+  const applyEncoding = async () => {
+    setIsApplying(true);
+    
+    const result = await processFileInWorker(file, { ...file.parseOptions, encoding });
+    if (result.status === 'error') {
+      setApplyError(result.error || 'File could not be parsed with this encoding');
+    } else {
+      updateFile(file.id, result);
+      setApplyError(null);
+    }
+    
+    setIsApplying(false);
+  };
+
+  const knownEncoding = SUPPORTED_ENCODINGS.some(option => option.value === file.encoding);
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Languages className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">{file.name}</h4>
+          <Badge variant="outline" className="text-xs">
+            {knownEncoding 
+              ? SUPPORTED_ENCODINGS.find(option => option.value === file.encoding)?.label 
+              : file.encoding?.toUpperCase()}
+          </Badge>
+        </div>
+        
+        <div className="flex items-center space-x-2">
+          <Select value={encoding} onValueChange={setEncoding} disabled={!canReparse}>
+            <SelectTrigger className="w-60">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_ENCODINGS.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            onClick={applyEncoding}
+            disabled={!canReparse || encoding === file.encoding || isApplying}
+          >
+            {isApplying ? 'Re-parsing...' : 'Apply'}
+          </Button>
+        </div>
+      </div>
+      
+      {applyError && (
+        <div className="flex items-center space-x-2 p-3 mb-3 bg-red-50 rounded text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span>{applyError}</span>
+        </div>
+      )}
+      
+      {canReparse ? (
+        <div className="font-mono text-xs bg-gray-50 border rounded-lg p-2 overflow-x-auto">
+          {sample.map((line, index) => (
+            <div key={index} className="whitespace-pre text-gray-800">{line}</div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Re-upload this file to change its encoding.
+        </p>
+      )}
+    </Card>
+  );
+}
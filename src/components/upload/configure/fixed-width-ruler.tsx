@@ -0,0 +1,226 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { AlertCircle, Columns3, RotateCcw, X } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { readTextSample } from '@/lib/file-utils';
+import { processFileInWorker } from '@/lib/file-worker';
+import { 
+  inferColumnBoundaries, 
+  normalizeBoundaries 
+} from '@/lib/fixed-width-utils';
+import { useAppStore } from '@/store';
+import type { ProcessedFile } from '@/types';
+
+interface FixedWidthRulerProps {
+  file: ProcessedFile;
+  sampleLines?: number;
+}
+
+export function FixedWidthRuler({ file, sampleLines = 15 }: FixedWidthRulerProps) {
+  const [lines, setLines] = useState<string[]>([]);
+  const [boundaries, setBoundaries] = useState<number[]>(file.columnBoundaries || []);
+  const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+  const rulerRef = useRef<HTMLDivElement>(null);
+
+  const { updateFile } = useAppStore();
+
+  // The raw text is only available while the original upload is in memory
+  const canReparse = file.content instanceof Blob;
+
+  useEffect(() => {
+    if (!canReparse) return;
+    
+    readTextSample(file.content, file.encoding).then(sample => {
+      setLines(sample.filter(line => line.trim() !== '').slice(0, sampleLines));
+    });
+  }, [file.content, file.encoding, canReparse, sampleLines]);
+
+  const width = Math.max(40, ...lines.map(line => line.length)) + 2;
+
+  /**
+   * Convert a mouse position over the ruler to a character offset
+   */
+  const positionFromEvent = (clientX: number): number => {
+    const rect = rulerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    
+    const position = Math.round(((clientX - rect.left) / rect.width) * width);
+    return Math.min(Math.max(position, 1), width - 1);
+  };
+
+  // Track boundary drags across the whole window
+  useEffect(() => {
+    if (draggingIndex === null) return;
+    
+    const handleMouseMove = (event: MouseEvent) => {
+      const position = positionFromEvent(event.clientX);
+      setBoundaries(prev => prev.map((boundary, index) => 
+        index === draggingIndex ? position : boundary
+      ));
+    };
+    
+    const handleMouseUp = () => {
+      setBoundaries(prev => normalizeBoundaries(prev));
+      setDraggingIndex(null);
+    };
+    
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  });
+
+  const addBoundary = (clientX: number) => {
+    setBoundaries(prev => normalizeBoundaries([...prev, positionFromEvent(clientX)]));
+  };
+
+  const removeBoundary = (boundary: number) => {
+    setBoundaries(prev => prev.filter(b => b !== boundary));
+  };
+
+  const applyBoundaries = async () => {
+    setIsApplying(true);
+    
+    const result = await processFileInWorker(file, {
+      ...file.parseOptions,
+      columnBoundaries: normalizeBoundaries(boundaries),
+    });
+    if (result.status === 'error') {
+      setApplyError(result.error || 'File could not be parsed with these column boundaries');
+    } else {
+      updateFile(file.id, result);
+      setApplyError(null);
+    }
+    
+    setIsApplying(false);
+  };
+
+  const hasChanges = normalizeBoundaries(boundaries).join(',') !== (file.columnBoundaries || []).join(',');
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <Columns3 className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">{file.name}</h4>
+          <Badge variant="outline" className="text-xs">
+            {boundaries.length + 1} columns
+          </Badge>
+        </div>
+        
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setBoundaries(inferColumnBoundaries(lines))}
+            disabled={lines.length === 0}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Auto-detect
+          </Button>
+          <Button
+            size="sm"
+            onClick={applyBoundaries}
+            disabled={!canReparse || !hasChanges || isApplying}
+          >
+            {isApplying ? 'Applying...' : 'Apply'}
+          </Button>
+        </div>
+      </div>
+      
+      {applyError && (
+        <div className="flex items-center space-x-2 p-3 mb-3 bg-red-50 rounded text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span>{applyError}</span>
+        </div>
+      )}
+      
+      {!canReparse ? (
+        <p className="text-sm text-gray-500">
+          Re-upload this file to edit its column boundaries.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            Click the ruler to add a boundary, drag a marker to move it, double-click a marker to remove it.
+          </p>
+          
+          <div className="overflow-x-auto border rounded-lg bg-gray-50">
+            <div className="relative font-mono text-xs select-none" style={{ width: `${width}ch` }}>
+              {/* Ruler */}
+              <div
+                ref={rulerRef}
+                className="relative h-6 border-b bg-white cursor-crosshair"
+                onClick={(event) => addBoundary(event.clientX)}
+              >
+                {Array.from({ length: Math.floor(width / 10) + 1 }, (_, tick) => (
+                  <span
+                    key={tick}
+                    className="absolute top-0 text-[10px] text-gray-400 border-l border-gray-300 pl-0.5"
+                    style={{ left: `${tick * 10}ch` }}
+                  >
+                    {tick * 10}
+                  </span>
+                ))}
+              </div>
+              
+              {/* Sample lines */}
+              <div className="py-1">
+                {lines.map((line, index) => (
+                  <div key={index} className="whitespace-pre leading-5 text-gray-800">
+                    {line || ' '}
+                  </div>
+                ))}
+              </div>
+              
+              {/* Boundary markers */}
+              {boundaries.map((boundary, index) => (
+                <div
+                  key={index}
+                  className="absolute top-0 bottom-0 w-px bg-blue-500"
+                  style={{ left: `${boundary}ch` }}
+                >
+                  <div
+                    className={`absolute -left-1.5 top-0 w-3 h-6 rounded-sm cursor-ew-resize ${
+                      draggingIndex === index ? 'bg-blue-700' : 'bg-blue-500'
+                    }`}
+                    onMouseDown={(event) => {
+                      event.preventDefault();
+                      setDraggingIndex(index);
+                    }}
+                    onDoubleClick={() => removeBoundary(boundary)}
+                    title={`Column starts at ${boundary}`}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {boundaries.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-3">
+              {normalizeBoundaries(boundaries).map(boundary => (
+                <Badge key={boundary} variant="secondary" className="text-xs">
+                  {boundary}
+                  <button 
+                    className="ml-1 text-gray-500 hover:text-gray-800" 
+                    onClick={() => removeBoundary(boundary)}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,324 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, SlidersHorizontal } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { detectDelimiter, getFileFormat, readTextSample } from '@/lib/file-utils';
+import { processFileInWorker } from '@/lib/file-worker';
+import { MAX_HEADER_ROWS } from '@/lib/header-utils';
+import { NUMBER_LOCALES } from '@/lib/number-utils';
+import { useAppStore } from '@/store';
+import type { FileParseOptions, ParsedData, ProcessedFile } from '@/types';
+
+interface ParseSettingsPanelProps {
+  file: ProcessedFile;
+  previewRows?: number;
+  onApplied?: (file: ProcessedFile) => void;
+}
+
+type ParseSettings = Pick<
+  FileParseOptions, 
+  'delimiter' | 'hasHeader' | 'headerRows' | 'numberLocale' | 'skipRows' | 'maxRows' | 'recordPath' | 'arrayPolicy'
+>;
+
+const DELIMITERS = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+// Wait for typing to settle before re-parsing the preview
+const PREVIEW_DEBOUNCE_MS = 400;
+
+export function ParseSettingsPanel({ file, previewRows = 8, onApplied }: ParseSettingsPanelProps) {
+  const [settings, setSettings] = useState<ParseSettings>(() => ({
+    delimiter: file.parseOptions?.delimiter,
+    hasHeader: file.parseOptions?.hasHeader,
+    headerRows: file.parseOptions?.headerRows,
+    numberLocale: file.parseOptions?.numberLocale,
+    skipRows: file.parseOptions?.skipRows,
+    maxRows: file.parseOptions?.maxRows,
+    recordPath: file.parseOptions?.recordPath,
+    arrayPolicy: file.parseOptions?.arrayPolicy,
+  }));
+  const [preview, setPreview] = useState<ParsedData | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [detectedDelimiter, setDetectedDelimiter] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const { updateFile } = useAppStore();
+
+  const format = getFileFormat(file.name);
+  const isDelimited = format === 'csv' || (format === 'text' && !file.columnBoundaries);
+  const hasRowStructure = format === 'csv' || format === 'excel' || format === 'text';
+  
+  // The raw bytes are only available while the original upload is in memory
+  const canReparse = file.content instanceof Blob;
+
+  useEffect(() => {
+    if (!canReparse || !isDelimited) return;
+    
+    readTextSample(file.content, file.encoding, 16 * 1024).then(lines => {
+      setDetectedDelimiter(detectDelimiter(lines.join('\n')));
+    });
+  }, [file.content, file.encoding, canReparse, isDelimited]);
+
+  // Live preview: re-parse the first rows whenever a setting changes
+  useEffect(() => {
+    if (!canReparse) return;
+    
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      const maxRows = Math.min(settings.maxRows || previewRows, previewRows);
+      const result = await processFileInWorker(file, { ...file.parseOptions, ...settings, maxRows });
+      
+      if (cancelled) return;
+      if (result.status === 'error') {
+        setPreview(null);
+        setPreviewError(result.error || 'File could not be parsed with these settings');
+      } else {
+        setPreview(result.parsedData);
+        setPreviewError(null);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [file, settings, canReparse, previewRows]);
+
+  const updateSettings = (updates: Partial<ParseSettings>) => {
+    setSettings(prev => ({ ...prev, ...updates }));
+  };
+
+  const parseCount = (value: string): number | undefined => {
+    const count = parseInt(value, 10);
+    return isNaN(count) || count <= 0 ? undefined : count;
+  };
+
+  const applySettings = async () => {
+    setIsApplying(true);
+    
+    const result = await processFileInWorker(file, { ...file.parseOptions, ...settings });
+    if (result.status === 'error') {
+      setPreviewError(result.error || 'File could not be parsed with these settings');
+    } else {
+      updateFile(file.id, result);
+      onApplied?.(result);
+    }
+    
+    setIsApplying(false);
+  };
+
+  const formatCell = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toLocaleDateString();
+    return String(value);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <SlidersHorizontal className="w-5 h-5 text-blue-600" />
+          <h4 className="font-medium text-gray-900">{file.name}</h4>
+        </div>
+        <Button size="sm" onClick={applySettings} disabled={!canReparse || isApplying}>
+          {isApplying ? 'Applying...' : 'Apply Settings'}
+        </Button>
+      </div>
+      
+      {!canReparse && (
+        <p className="text-sm text-gray-500">
+          Re-upload this file to change how it is parsed.
+        </p>
+      )}
+      
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {isDelimited && (
+          <div>
+            <label className="text-xs font-medium text-gray-700 mb-1 block">Delimiter</label>
+            <Select
+              value={settings.delimiter ?? 'auto'}
+              onValueChange={(value) => updateSettings({ delimiter: value === 'auto' ? undefined : value })}
+              disabled={!canReparse}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">
+                  Auto-detect
+                  {detectedDelimiter && ` (${DELIMITERS.find(d => d.value === detectedDelimiter)?.label})`}
+                </SelectItem>
+                {DELIMITERS.map(delimiter => (
+                  <SelectItem key={delimiter.label} value={delimiter.value}>
+                    {delimiter.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        {hasRowStructure && (
+          <div>
+            <label className="text-xs font-medium text-gray-700 mb-1 block">Header Rows</label>
+            <Select
+              value={settings.headerRows === undefined ? 'auto' : String(settings.headerRows)}
+              onValueChange={(value) => updateSettings({ 
+                headerRows: value === 'auto' ? undefined : Number(value),
+                hasHeader: undefined,
+              })}
+              disabled={!canReparse}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Auto-detect</SelectItem>
+                <SelectItem value="0">No header row</SelectItem>
+                {Array.from({ length: MAX_HEADER_ROWS }, (_, index) => (
+                  <SelectItem key={index} value={String(index + 1)}>
+                    {index === 0 ? 'First row' : `First ${index + 1} rows combined`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        {hasRowStructure && (
+          <div>
+            <label className="text-xs font-medium text-gray-700 mb-1 block">Skip Leading Rows</label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="0"
+              value={settings.skipRows ?? ''}
+              onChange={(e) => updateSettings({ skipRows: parseCount(e.target.value) })}
+              disabled={!canReparse}
+            />
+          </div>
+        )}
+        
+        {hasRowStructure && (
+          <div>
+            <label className="text-xs font-medium text-gray-700 mb-1 block">Number Format</label>
+            <Select
+              value={settings.numberLocale ?? 'auto'}
+              onValueChange={(value) => updateSettings({ numberLocale: value === 'auto' ? undefined : value })}
+              disabled={!canReparse}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Auto-detect per column</SelectItem>
+                {NUMBER_LOCALES.map(locale => (
+                  <SelectItem key={locale.id} value={locale.id}>
+                    {locale.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        
+        <div>
+          <label className="text-xs font-medium text-gray-700 mb-1 block">Max Rows</label>
+          <Input
+            type="number"
+            min={0}
+            placeholder="All rows"
+            value={settings.maxRows ?? ''}
+            onChange={(e) => updateSettings({ maxRows: parseCount(e.target.value) })}
+            disabled={!canReparse}
+          />
+        </div>
+        
+        {format === 'json' && (
+          <>
+            <div>
+              <label className="text-xs font-medium text-gray-700 mb-1 block">Records Path</label>
+              <Input
+                placeholder="Auto-detect (e.g. data.items)"
+                value={settings.recordPath ?? ''}
+                onChange={(e) => updateSettings({ recordPath: e.target.value || undefined })}
+                disabled={!canReparse}
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-700 mb-1 block">Nested Arrays</label>
+              <Select
+                value={settings.arrayPolicy ?? 'stringify'}
+                onValueChange={(value: 'explode' | 'stringify') => updateSettings({ arrayPolicy: value })}
+                disabled={!canReparse}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stringify">Keep as JSON text</SelectItem>
+                  <SelectItem value="explode">One row per element</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+      </div>
+      
+      {/* Live Preview */}
+      {previewError && (
+        <div className="flex items-center space-x-2 p-3 bg-red-50 rounded text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span>{previewError}</span>
+        </div>
+      )}
+      
+      {preview && (
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                {preview.headers.map((header, index) => (
+                  <TableHead key={index} className="text-xs">{header}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.rows.map((row, rowIndex) => (
+                <TableRow key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <TableCell key={cellIndex} className="text-xs">
+                      <div className="max-w-32 truncate">{formatCell(cell)}</div>
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { FileSpreadsheet, Plus } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { createSheetFile, getSheetFileName, selectSheet } from '@/lib/file-utils';
+import { useAppStore } from '@/store';
+import type { ProcessedFile } from '@/types';
+
+interface SheetSelectorProps {
+  file: ProcessedFile;
+  onSheetImported?: (file: ProcessedFile) => void;
+}
+
+export function SheetSelector({ file, onSheetImported }: SheetSelectorProps) {
+  const { files, addFiles, updateFile } = useAppStore();
+
+  if (!file.sheets || file.sheets.length === 0) {
+    return null;
+  }
+
+  // Sheets already split out into their own files
+  const importedSheets = new Set(
+    file.sheets
+      .filter(sheet => files.some(f => f.name === getSheetFileName(file, sheet.name)))
+      .map(sheet => sheet.name)
+  );
+
+  const handleSheetChange = (sheetName: string) => {
+    updateFile(file.id, selectSheet(file, sheetName));
+  };
+
+  const importSheet = (sheetName: string) => {
+    const sheetFile = createSheetFile(file, sheetName);
+    if (!sheetFile) return;
+    
+    addFiles([sheetFile]);
+    onSheetImported?.(sheetFile);
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center space-x-2">
+          <FileSpreadsheet className="w-5 h-5 text-green-600" />
+          <h4 className="font-medium text-gray-900">{file.name}</h4>
+          <Badge variant="outline" className="text-xs">
+            {file.sheets.length} sheets
+          </Badge>
+        </div>
+        
+        <Select value={file.sheetName} onValueChange={handleSheetChange}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Select sheet..." />
+          </SelectTrigger>
+          <SelectContent>
+            {file.sheets.map(sheet => (
+              <SelectItem key={sheet.name} value={sheet.name}>
+                {sheet.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      
+      <div className="space-y-2">
+        {file.sheets.map(sheet => {
+          const isActive = sheet.name === file.sheetName;
+          const isImported = importedSheets.has(sheet.name);
+          
+          return (
+            <div 
+              key={sheet.name} 
+              className={`flex items-center justify-between p-2 rounded ${isActive ? 'bg-blue-50' : 'bg-gray-50'}`}
+            >
+              <div className="text-sm">
+                <span className="font-medium text-gray-900">{sheet.name}</span>
+                <span className="text-gray-500 ml-2">
+                  {sheet.parsedData.headers.length} columns • {sheet.parsedData.rowCount.toLocaleString()} rows
+                </span>
+              </div>
+              
+              {isActive ? (
+                <Badge variant="secondary" className="text-xs">Active</Badge>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={isImported || sheet.parsedData.rowCount === 0}
+                  onClick={() => importSheet(sheet.name)}
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  {isImported ? 'Imported' : 'Import as table'}
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -7,9 +7,10 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { validateFile, formatFileSize, createUploadedFile, processFile } from '@/lib/file-utils';
+import { validateFile, formatFileSize, createUploadedFile, getProgressPercentage } from '@/lib/file-utils';
+import { processFileInWorker } from '@/lib/file-worker';
 import { useAppStore } from '@/store';
-import type { UploadedFile } from '@/types';
+import type { UploadedFile, ParseProgress } from '@/types';
 
 interface FileDropzoneProps {
   maxFiles?: number;
@@ -22,7 +23,7 @@ export function FileDropzone({
   maxSize = 10 * 1024 * 1024,
   onFilesProcessed 
 }: FileDropzoneProps) {
-  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+  const [uploadProgress, setUploadProgress] = useState<Record<string, ParseProgress>>({});
   const [processingFiles, setProcessingFiles] = useState<string[]>([]);
   
   const { files, addFiles, updateFile } = useAppStore();
@@ -31,25 +32,16 @@ export function FileDropzone({
     setProcessingFiles(prev => [...prev, uploadedFile.id]);
     
     try {
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          const current = prev[uploadedFile.id] || 0;
-          const next = Math.min(current + Math.random() * 20, 90);
-          
-          if (next >= 90) {
-            clearInterval(progressInterval);
-          }
-          
-          return { ...prev, [uploadedFile.id]: next };
-        });
-      }, 100);
-
-      // Process the file
-      const processedFile = await processFile(uploadedFile);
+      // Re-uploads of a fixed-width file reuse its saved column layout
+      const previousUpload = useAppStore.getState().files.find(f => 
+        f.id !== uploadedFile.id && f.name === uploadedFile.name && f.columnBoundaries
+      );
+      const options = { columnBoundaries: previousUpload?.columnBoundaries };
       
-      // Complete progress
-      setUploadProgress(prev => ({ ...prev, [uploadedFile.id]: 100 }));
+      // Parse off the main thread, tracking real progress
+      const processedFile = await processFileInWorker(uploadedFile, options, (progress) => {
+        setUploadProgress(prev => ({ ...prev, [uploadedFile.id]: progress }));
+      });
       
       // Update file in store
       updateFile(uploadedFile.id, processedFile);
@@ -133,6 +125,11 @@ export function FileDropzone({
       'text/csv': ['.csv'],
       'application/vnd.ms-excel': ['.xls'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
+      'application/vnd.apache.parquet': ['.parquet'],
+      'application/vnd.apache.arrow.file': ['.arrow', '.feather', '.ipc'],
+      'text/plain': ['.txt', '.dat', '.prn'],
     },
     maxFiles,
     maxSize,
@@ -177,14 +174,14 @@ export function FileDropzone({
             </h3>
             <p className="text-sm text-gray-500 mt-1">
               {canUploadMore 
-                ? `Drag & drop CSV or Excel files, or click to browse (${files.length}/${maxFiles} files)`
+                ? `Drag & drop CSV, Excel, JSON, Parquet, Arrow or fixed-width text files, or click to browse (${files.length}/${maxFiles} files)`
                 : 'Maximum number of files reached'
               }
             </p>
           </div>
           
           <div className="flex items-center space-x-2 text-xs text-gray-400">
-            <span>Supported formats: CSV, XLS, XLSX</span>
+            <span>Supported formats: CSV, XLS, XLSX, JSON, NDJSON, Parquet, Arrow, TXT</span>
             <span>•</span>
             <span>Max size: {formatFileSize(maxSize)}</span>
           </div>
@@ -205,7 +202,8 @@ export function FileDropzone({
           <div className="space-y-3">
             {files.map((file) => {
               const isProcessing = processingFiles.includes(file.id);
-              const progress = uploadProgress[file.id] || 0;
+              const fileProgress = uploadProgress[file.id];
+              const progress = fileProgress ? getProgressPercentage(fileProgress) : 0;
               
               return (
                 <div key={file.id} className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg">
@@ -262,6 +260,7 @@ export function FileDropzone({
                         <Progress value={progress} className="h-1" />
                         <p className="text-xs text-gray-500 mt-1">
                           Processing... {Math.round(progress)}%
+                          {fileProgress && ` • ${fileProgress.rowsProcessed.toLocaleString()} rows`}
                         </p>
                       </div>
                     )}
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, BarChart3, Loader2 } from 'lucide-react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { profileDataInWorker } from '@/lib/profile-worker';
+import { useAppStore } from '@/store';
+import type { ColumnProfile, DataProfile, HistogramBin, ParsedData, ProcessedFile } from '@/types';
+
+interface ColumnProfilePanelProps {
+  file: ProcessedFile;
+  parsedData: ParsedData;
+  sheetName?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ColumnProfilePanel({
+  file,
+  parsedData,
+  sheetName,
+  open,
+  onOpenChange
+}: ColumnProfilePanelProps) {
+  const [profile, setProfile] = useState<DataProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { updateFile } = useAppStore();
+
+  // Only the active sheet's profile is cached on the file
+  const isActiveData = sheetName === file.sheetName;
+  const cachedProfile = isActiveData && file.profile?.sheetName === sheetName ? file.profile : undefined;
+
+  useEffect(() => {
+    if (!open) return;
+    if (cachedProfile) {
+      setProfile(cachedProfile);
+      return;
+    }
+
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+
+    profileDataInWorker(parsedData, sheetName)
+      .then(result => {
+        if (cancelled) return;
+        setProfile(result);
+        if (isActiveData) {
+          updateFile(file.id, { profile: result });
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Profiling failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, cachedProfile, parsedData, sheetName, isActiveData, file.id, updateFile]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <BarChart3 className="w-5 h-5 text-blue-600" />
+            <span>Column Profile</span>
+          </SheetTitle>
+          <SheetDescription>
+            {file.name}{sheetName && ` • ${sheetName}`} • {parsedData.rowCount.toLocaleString()} rows
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-4 space-y-4">
+          {error && (
+            <div className="flex items-center space-x-2 p-3 bg-red-50 rounded text-sm text-red-700">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {!profile && !error && (
+            <div className="flex items-center justify-center py-12 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Profiling columns...
+            </div>
+          )}
+
+          {profile?.columns.map(column => (
+            <ColumnProfileCard key={column.name} column={column} />
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+function ColumnProfileCard({ column }: { column: ColumnProfile }) {
+  const { numberStats, textStats, dateStats } = column;
+  const completeness = column.count + column.nullCount > 0
+    ? Math.round(column.count / (column.count + column.nullCount) * 1000) / 10
+    : 0;
+
+  const stats: [string, string][] = [
+    ['Filled', `${completeness}%`],
+    ['Unique', column.uniqueCount.toLocaleString()],
+  ];
+
+  if (numberStats) {
+    stats.push(
+      ['Min', formatNumber(numberStats.min)],
+      ['Max', formatNumber(numberStats.max)],
+      ['Mean', formatNumber(numberStats.mean)],
+      ['Median', formatNumber(numberStats.median)],
+      ['Std dev', formatNumber(numberStats.stdDev)],
+      ['P5 – P95', `${formatNumber(numberStats.quantiles.p5)} – ${formatNumber(numberStats.quantiles.p95)}`],
+      ['P25 – P75', `${formatNumber(numberStats.quantiles.p25)} – ${formatNumber(numberStats.quantiles.p75)}`],
+    );
+  }
+  if (textStats) {
+    stats.push(
+      ['Length', `${textStats.minLength} – ${textStats.maxLength}`],
+      ['Mean length', formatNumber(textStats.meanLength)],
+    );
+  }
+  if (dateStats) {
+    stats.push(
+      ['From', formatDate(dateStats.min)],
+      ['To', formatDate(dateStats.max)],
+      ['Typical step', `${formatNumber(dateStats.typicalStepDays)} days`],
+    );
+  }
+
+  const histogram = column.histogram.length > 0 ? column.histogram : textStats?.lengthHistogram ?? [];
+  const formatBin = (bin: HistogramBin) => {
+    if (dateStats) return formatDate(bin.start);
+    if (textStats && !numberStats) return `${Math.ceil(bin.start)} chars`;
+    return formatNumber(bin.start);
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-gray-900 truncate">{column.name}</span>
+        <Badge variant="outline" className="text-xs">{column.type}</Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(([label, value]) => (
+          <div key={label} className="p-2 bg-gray-50 rounded">
+            <div className="text-xs text-gray-500">{label}</div>
+            <div className="text-sm font-medium text-gray-900 truncate">{value}</div>
+          </div>
+        ))}
+      </div>
+
+      {histogram.length > 1 && (
+        <div className="h-16">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram.map(bin => ({ label: formatBin(bin), count: bin.count }))}>
+              <XAxis dataKey="label" hide />
+              <Tooltip cursor={{ fill: '#eff6ff' }} />
+              <Bar dataKey="count" fill="#3b82f6" />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {dateStats && dateStats.gaps.length > 0 && (
+        <div className="text-xs text-gray-600 space-y-1">
+          <div className="font-medium text-gray-700">Largest gaps</div>
+          {dateStats.gaps.map(gap => (
+            <div key={gap.from}>
+              {formatDate(gap.from)} → {formatDate(gap.to)} ({gap.days} days)
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!numberStats && !dateStats && column.topValues.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-xs font-medium text-gray-700">Most frequent</div>
+          {column.topValues.slice(0, 5).map(({ value, count }) => (
+            <div key={value} className="flex items-center space-x-2 text-xs">
+              <span className="w-28 truncate text-gray-800">{value}</span>
+              <div className="flex-1 bg-gray-100 rounded h-2">
+                <div
+                  className="bg-blue-500 h-2 rounded"
+                  style={{ width: `${(count / column.count) * 100}%` }}
+                />
+              </div>
+              <span className="w-12 text-right text-gray-500">{count.toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const formatNumber = (value: number): string => {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+const formatDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString();
+};
@@ -13,8 +13,19 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ParseSettingsPanel } from '../configure/parse-settings-panel';
+import { HeaderRangeEditor } from './header-range-editor';
+import { ColumnProfilePanel } from './column-profile-panel';
 import { formatFileSize } from '@/lib/file-utils';
-import type { ProcessedFile, DataType } from '@/types';
+import { SEMANTIC_TYPE_LABELS } from '@/lib/semantic-utils';
+import type { ProcessedFile, DataType, ColumnType } from '@/types';
 
 interface FilePreviewProps {
   file: ProcessedFile;
@@ -31,8 +42,12 @@ export function FilePreview({
 }: FilePreviewProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [currentPage, setCurrentPage] = useState(0);
+  const [previewSheet, setPreviewSheet] = useState<string | undefined>(file.sheetName);
+  const [isConfiguring, setIsConfiguring] = useState(false);
+  const [isProfiling, setIsProfiling] = useState(false);
 
-  const { parsedData } = file;
+  // Workbooks preview any sheet; other files only have their own data
+  const parsedData = file.sheets?.find(s => s.name === previewSheet)?.parsedData ?? file.parsedData;
   
   if (!parsedData) {
     return null;
@@ -58,6 +73,11 @@ export function FilePreview({
     }
   };
 
+  // Currency columns show their code, percent columns a % sign
+  const formatNumberUnit = (col: ColumnType): string => {
+    return col.numberFormat?.unit === 'percent' ? '%' : col.numberFormat?.currency ?? 'currency';
+  };
+
   const formatCellValue = (value: unknown): string => {
     if (value === null || value === undefined) return '';
     if (value instanceof Date) return value.toLocaleDateString();
@@ -179,6 +199,36 @@ export function FilePreview({
             </div>
           </div>
 
+          {/* Sheet Tabs */}
+          {file.sheets && file.sheets.length > 1 && (
+            <div className="flex flex-wrap gap-2 border-b pb-3">
+              {file.sheets.map(sheet => (
+                <Button
+                  key={sheet.name}
+                  variant={sheet.name === (previewSheet ?? file.sheetName) ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => {
+                    setPreviewSheet(sheet.name);
+                    setCurrentPage(0);
+                  }}
+                >
+                  {sheet.name}
+                  {sheet.name === file.sheetName && (
+                    <span className="ml-1 text-xs opacity-75">(active)</span>
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {/* Header Rows */}
+          {(previewSheet ?? file.sheetName) === file.sheetName && (
+            <HeaderRangeEditor
+              key={`${file.parseOptions?.skipRows ?? 0}-${parsedData.headerRows}`}
+              file={file}
+            />
+          )}
+
           {/* Column Types */}
           <div>
             <h4 className="text-sm font-medium text-gray-900 mb-2">Column Types</h4>
@@ -187,8 +237,15 @@ export function FilePreview({
                 <div key={index} className="flex items-center space-x-2">
                   <Badge variant="outline" className={`${getTypeColor(col.type)} text-xs`}>
                     {col.name}: {col.type}
+                    {col.numberFormat?.unit && ` (${formatNumberUnit(col)})`}
+                    {col.dateFormat && ` (${col.dateFormat.pattern})`}
                   </Badge>
-                  {col.confidence < 0.8 && (
+                  {col.semanticType && (
+                    <Badge variant="outline" className="text-xs">
+                      {SEMANTIC_TYPE_LABELS[col.semanticType]}
+                    </Badge>
+                  )}
+                  {(col.confidence < 0.8 || col.dateFormat?.ambiguous) && (
                     <span className="text-xs text-orange-600">(?)</span>
                   )}
                 </div>
@@ -289,17 +346,37 @@ export function FilePreview({
             </div>
             
             <div className="flex space-x-2">
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={() => setIsProfiling(true)}>
                 <BarChart3 className="w-4 h-4 mr-1" />
                 Quick Stats
               </Button>
-              <Button variant="outline" size="sm">
+              <Button variant="outline" size="sm" onClick={() => setIsConfiguring(true)}>
                 Configure
               </Button>
             </div>
           </div>
         </div>
       )}
+      
+      <ColumnProfilePanel
+        file={file}
+        parsedData={parsedData}
+        sheetName={previewSheet ?? file.sheetName}
+        open={isProfiling}
+        onOpenChange={setIsProfiling}
+      />
+      
+      <Dialog open={isConfiguring} onOpenChange={setIsConfiguring}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Parse Settings</DialogTitle>
+            <DialogDescription>
+              Adjust how this file is read. The preview updates as you change settings.
+            </DialogDescription>
+          </DialogHeader>
+          <ParseSettingsPanel file={file} onApplied={() => setIsConfiguring(false)} />
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertCircle, Check, Rows3 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MAX_HEADER_ROWS } from '@/lib/header-utils';
+import { processFileInWorker } from '@/lib/file-worker';
+import { useAppStore } from '@/store';
+import type { ProcessedFile } from '@/types';
+
+interface HeaderRangeEditorProps {
+  file: ProcessedFile;
+}
+
+export function HeaderRangeEditor({ file }: HeaderRangeEditorProps) {
+  const detectedRows = file.parsedData.headerRows ?? (file.hasHeader ? 1 : 0);
+  const currentStart = (file.parseOptions?.skipRows ?? 0) + 1;
+
+  const [firstRow, setFirstRow] = useState(currentStart);
+  const [headerRows, setHeaderRows] = useState(detectedRows);
+  const [isApplying, setIsApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const { updateFile } = useAppStore();
+
+  // The raw bytes are only available while the original upload is in memory
+  const canReparse = file.content instanceof Blob;
+  const isConfirmed = file.parseOptions?.headerRows !== undefined;
+  const hasChanges = firstRow !== currentStart || headerRows !== detectedRows;
+  const lastRow = firstRow + headerRows - 1;
+
+  const applyRange = async () => {
+    setIsApplying(true);
+
+    const result = await processFileInWorker(file, {
+      ...file.parseOptions,
+      skipRows: firstRow - 1 || undefined,
+      headerRows,
+      hasHeader: undefined,
+    });
+    if (result.status === 'error') {
+      setApplyError(result.error || 'File could not be parsed with this header range');
+    } else {
+      updateFile(file.id, result);
+      setApplyError(null);
+    }
+
+    setIsApplying(false);
+  };
+
+  // The detected range already produced the current data, so only record it
+  const confirmRange = () => {
+    updateFile(file.id, {
+      parseOptions: { ...file.parseOptions, headerRows: detectedRows, hasHeader: undefined }
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 p-3 bg-gray-50 rounded-lg">
+      <div className="flex items-center space-x-2">
+        <Rows3 className="w-4 h-4 text-blue-600" />
+        <span className="text-sm font-medium text-gray-900">
+          {headerRows === 0
+            ? 'No header row'
+            : headerRows === 1
+              ? `Header: row ${firstRow}`
+              : `Header: rows ${firstRow}–${lastRow}`}
+        </span>
+        <Badge variant="secondary" className="text-xs">
+          {isConfirmed ? 'Confirmed' : 'Detected'}
+        </Badge>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <label className="text-xs text-gray-600">Starts at row</label>
+        <Input
+          type="number"
+          min={1}
+          className="w-20 h-8"
+          value={firstRow}
+          onChange={(e) => setFirstRow(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          disabled={!canReparse}
+        />
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <label className="text-xs text-gray-600">Header rows</label>
+        <Select
+          value={String(headerRows)}
+          onValueChange={(value) => setHeaderRows(Number(value))}
+          disabled={!canReparse}
+        >
+          <SelectTrigger className="w-24 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: MAX_HEADER_ROWS + 1 }, (_, count) => (
+              <SelectItem key={count} value={String(count)}>
+                {count === 0 ? 'None' : count}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="ml-auto flex space-x-2">
+        {hasChanges ? (
+          <Button size="sm" onClick={applyRange} disabled={!canReparse || isApplying}>
+            {isApplying ? 'Applying...' : 'Apply'}
+          </Button>
+        ) : !isConfirmed && (
+          <Button size="sm" variant="outline" onClick={confirmRange}>
+            <Check className="w-4 h-4 mr-1" />
+            Confirm
+          </Button>
+        )}
+      </div>
+
+      {applyError && (
+        <div className="w-full flex items-center space-x-2 text-sm text-red-700">
+          <AlertCircle className="w-4 h-4" />
+          <span>{applyError}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,8 +9,15 @@ import { Badge } from '@/components/ui/badge';
 import { FileDropzone } from './dropzone/file-dropzone';
 import { FilePreview } from './preview/file-preview';
 import { FileValidation } from './validation/file-validation';
+import { ValidationRulesEditor } from './validation/validation-rules-editor';
+import { SheetSelector } from './configure/sheet-selector';
+import { FixedWidthRuler } from './configure/fixed-width-ruler';
+import { EncodingSelector } from './configure/encoding-selector';
+import { ParseSettingsPanel } from './configure/parse-settings-panel';
+import { DateFormatEditor } from './configure/date-format-editor';
+import { isTextFormat } from '@/lib/file-utils';
 import { useAppStore } from '@/store';
-import type { UploadedFile } from '@/types';
+import type { UploadedFile, ProcessedFile } from '@/types';
 
 interface UploadWizardProps {
   onComplete?: () => void;
@@ -38,7 +45,7 @@ export function UploadWizard({ onComplete, maxFiles = 5 }: UploadWizardProps) {
     {
       id: 'upload',
       title: 'Upload Files',
-      description: 'Add your CSV and Excel files',
+      description: 'Add your CSV, Excel, JSON, Parquet, Arrow or fixed-width text files',
       icon: <Upload className="w-5 h-5" />,
       completed: files.length > 0
     },
@@ -85,6 +92,10 @@ export function UploadWizard({ onComplete, maxFiles = 5 }: UploadWizardProps) {
     });
   };
 
+  const handleSheetImported = (sheetFile: ProcessedFile) => {
+    setSelectedFiles(prev => [...prev, sheetFile.id]);
+  };
+
   const handleValidationComplete = (results: { canProceed: boolean }) => {
     setValidationPassed(results.canProceed);
   };
@@ -146,7 +157,7 @@ export function UploadWizard({ onComplete, maxFiles = 5 }: UploadWizardProps) {
                 Upload Your Data Files
               </h2>
               <p className="text-gray-600">
-                Start by uploading CSV or Excel files containing your data.
+                Start by uploading CSV, Excel, JSON, Parquet, Arrow or fixed-width text files containing your data.
                 We'll automatically parse and preview them for you.
               </p>
             </div>
@@ -210,10 +221,30 @@ export function UploadWizard({ onComplete, maxFiles = 5 }: UploadWizardProps) {
               files={selectedFileObjects}
               onValidationComplete={handleValidationComplete}
             />
+            
+            <div className="space-y-3">
+              <h3 className="font-medium text-gray-900">Validation Rules</h3>
+              {selectedFileObjects.filter(f => f.parsedData).map(file => (
+                <ValidationRulesEditor key={file.id} file={file} />
+              ))}
+            </div>
           </div>
         );
         
       case 'configure':
+        const workbookFiles = files.filter(f => 
+          selectedFiles.includes(f.id) && f.sheets && f.sheets.length > 1
+        );
+        const fixedWidthFiles = files.filter(f => 
+          selectedFiles.includes(f.id) && f.columnBoundaries
+        );
+        const textFiles = files.filter(f => 
+          selectedFiles.includes(f.id) && isTextFormat(f.name)
+        );
+        const configFiles = files.filter(f => selectedFiles.includes(f.id));
+        const dateFiles = configFiles.filter(f => 
+          f.parsedData?.columnTypes.some(col => col.dateFormat) || f.parseOptions?.datePatterns
+        );
         return (
           <div className="space-y-6">
             <div className="text-center">
@@ -225,33 +256,52 @@ export function UploadWizard({ onComplete, maxFiles = 5 }: UploadWizardProps) {
               </p>
             </div>
             
-            <Card className="p-6">
-              <div className="text-center space-y-4">
-                <div className="p-4 bg-blue-50 rounded-lg">
-                  <Settings className="w-12 h-12 text-blue-600 mx-auto mb-2" />
-                  <h3 className="font-medium text-blue-900">Configuration Options</h3>
-                  <p className="text-sm text-blue-700">
-                    Advanced settings will be available in the next version.
-                    For now, we&apos;ll use smart defaults based on your data.
-                  </p>
-                </div>
-                
-                <div className="text-left space-y-3">
-                  <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
-                    <span className="text-sm font-medium">Auto-detect data types</span>
-                    <Badge variant="secondary">Enabled</Badge>
-                  </div>
-                  <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
-                    <span className="text-sm font-medium">Header row detection</span>
-                    <Badge variant="secondary">Enabled</Badge>
-                  </div>
-                  <div className="flex justify-between items-center p-3 bg-gray-50 rounded">
-                    <span className="text-sm font-medium">Data cleaning</span>
-                    <Badge variant="secondary">Basic</Badge>
-                  </div>
-                </div>
+            {workbookFiles.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">Workbook Sheets</h3>
+                {workbookFiles.map(file => (
+                  <SheetSelector
+                    key={file.id}
+                    file={file}
+                    onSheetImported={handleSheetImported}
+                  />
+                ))}
+              </div>
+            )}
+            
+            {textFiles.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">Character Encoding</h3>
+                {textFiles.map(file => (
+                  <EncodingSelector key={file.id} file={file} />
+                ))}
+              </div>
+            )}
+            
+            {fixedWidthFiles.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">Fixed-Width Columns</h3>
+                {fixedWidthFiles.map(file => (
+                  <FixedWidthRuler key={file.id} file={file} />
+                ))}
+              </div>
+            )}
+            
+            {dateFiles.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-medium text-gray-900">Date Formats</h3>
+                {dateFiles.map(file => (
+                  <DateFormatEditor key={file.id} file={file} />
+                ))}
               </div>
-            </Card>
+            )}
+            
+            <div className="space-y-3">
+              <h3 className="font-medium text-gray-900">Parse Settings</h3>
+              {configFiles.map(file => (
+                <ParseSettingsPanel key={file.id} file={file} />
+              ))}
+            </div>
           </div>
         );
         
@@ -1,12 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { AlertCircle, CheckCircle2, AlertTriangle, Info } from 'lucide-react';
+import { AlertCircle, CheckCircle2, AlertTriangle, Info, Wand2 } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
-import type { ProcessedFile } from '@/types';
+import { DataFixer } from '@/lib/data-fixing';
+import { applyFileFixes } from '@/lib/file-utils';
+import { PII_SUGGESTED_TRANSFORMS, PII_TYPE_LABELS, PiiScanner } from '@/lib/pii-detection';
+import { matchesSemanticType, SEMANTIC_TYPE_LABELS } from '@/lib/semantic-utils';
+import { TransformRegistry } from '@/lib/transform-registry';
+import { RuleEngine } from '@/lib/validation-rules';
+import { useAppStore } from '@/store';
+import type { DataFix, ProcessedFile, RuleViolation } from '@/types';
 
 interface FileValidationProps {
   files: ProcessedFile[];
@@ -26,10 +33,11 @@ interface ValidationIssue {
   fileId: string;
   fileName: string;
   type: 'error' | 'warning' | 'info';
-  category: 'structure' | 'data' | 'format' | 'size';
+  category: 'structure' | 'data' | 'format' | 'size' | 'privacy';
   message: string;
   suggestion?: string;
-  autoFixable?: boolean;
+  fix?: DataFix; // cleanup that resolves the issue
+  examples?: RuleViolation[]; // first rows that break a validation rule
 }
 
 export function FileValidation({ files, onValidationComplete }: FileValidationProps) {
@@ -37,6 +45,8 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
   const [isValidating, setIsValidating] = useState(false);
   const [validationProgress, setValidationProgress] = useState(0);
 
+  const { updateFile, validationRules } = useAppStore();
+
   // Validate individual file
   const validateFile = (file: ProcessedFile): ValidationIssue[] => {
     const issues: ValidationIssue[] = [];
@@ -48,7 +58,7 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
         type: 'error',
         category: 'structure',
         message: 'File could not be parsed',
-        suggestion: 'Check if file format is supported (CSV, XLS, XLSX)'
+        suggestion: 'Check if file format is supported (CSV, XLS, XLSX, JSON, NDJSON, Parquet, Arrow, TXT)'
       });
       return issues;
     }
@@ -91,9 +101,7 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
     }
 
     // Check for duplicate column names
-    const duplicateColumns = headers.filter((header, index) => 
-      headers.indexOf(header) !== index
-    );
+    const duplicateColumns = DataFixer.findDuplicateHeaders(headers);
     
     if (duplicateColumns.length > 0) {
       issues.push({
@@ -103,29 +111,83 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
         category: 'structure',
         message: `Duplicate column names found: ${duplicateColumns.join(', ')}`,
         suggestion: 'Consider renaming duplicate columns for better mapping',
-        autoFixable: true
+        fix: { type: 'rename_duplicate_headers' }
       });
     }
 
     // Check for empty column names
-    const emptyColumns = headers.filter((header) => 
-      !header || header.trim() === ''
-    );
+    const emptyColumnNames = DataFixer.countEmptyHeaders(headers);
     
-    if (emptyColumns.length > 0) {
+    if (emptyColumnNames > 0) {
       issues.push({
         fileId: file.id,
         fileName: file.name,
         type: 'warning',
         category: 'structure',
-        message: `${emptyColumns.length} columns have no names`,
+        message: `${emptyColumnNames} columns have no names`,
         suggestion: 'Columns will be auto-named (Column 1, Column 2, etc.)',
-        autoFixable: true
+        fix: { type: 'name_empty_headers' }
+      });
+    }
+
+    // Check for blank rows and columns
+    const emptyRows = DataFixer.countEmptyRows(rows);
+    
+    if (emptyRows > 0) {
+      issues.push({
+        fileId: file.id,
+        fileName: file.name,
+        type: 'warning',
+        category: 'structure',
+        message: `${emptyRows} rows are completely empty`,
+        suggestion: 'Empty rows add nothing to the merge and can be removed',
+        fix: { type: 'drop_empty_rows' }
+      });
+    }
+    
+    const emptyColumns = DataFixer.findEmptyColumns(headers, rows);
+    
+    if (emptyColumns.length > 0) {
+      issues.push({
+        fileId: file.id,
+        fileName: file.name,
+        type: 'warning',
+        category: 'structure',
+        message: `Columns with no values: ${emptyColumns.join(', ')}`,
+        suggestion: 'Empty columns add nothing to the merge and can be removed',
+        fix: { type: 'drop_empty_columns' }
       });
     }
 
+    // Check for stray whitespace and inconsistent spelling
+    const untidyColumns = DataFixer.findUntidyColumns(headers, rows);
+    
+    if (untidyColumns.length > 0) {
+      issues.push({
+        fileId: file.id,
+        fileName: file.name,
+        type: 'info',
+        category: 'data',
+        message: `Values with extra spaces in: ${untidyColumns.join(', ')}`,
+        suggestion: 'Extra spaces stop otherwise equal values from matching',
+        fix: { type: 'trim_whitespace' }
+      });
+    }
+    
+    DataFixer.findInconsistentCasing(headers, rows, columnTypes).forEach(({ column, variants }) => {
+      issues.push({
+        fileId: file.id,
+        fileName: file.name,
+        type: 'info',
+        category: 'data',
+        message: `Column "${column}" spells the same value differently: ${variants.slice(0, 5).join(', ')}`,
+        suggestion: 'Use the most common spelling so values group together',
+        fix: { type: 'normalize_casing', column }
+      });
+    });
+
     // Check data quality
-    columnTypes.forEach((col) => {
+    columnTypes.forEach((col, columnIndex) => {
       const nullPercentage = (col.nullCount / rows.length) * 100;
       
       if (nullPercentage > 50) {
@@ -139,6 +201,25 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
         });
       }
 
+      // Values that break the pattern the rest of the column follows
+      const { semanticType } = col;
+      if (semanticType) {
+        const invalidCount = rows.filter(row => 
+          row[columnIndex] !== null && !matchesSemanticType(row[columnIndex], semanticType, col.name)
+        ).length;
+        
+        if (invalidCount > 0) {
+          issues.push({
+            fileId: file.id,
+            fileName: file.name,
+            type: 'warning',
+            category: 'data',
+            message: `Column "${col.name}" has ${invalidCount} values that are not a valid ${SEMANTIC_TYPE_LABELS[semanticType].toLowerCase()}`,
+            suggestion: 'Review these values before merging'
+          });
+        }
+      }
+
       if (col.confidence < 0.6) {
         issues.push({
           fileId: file.id,
@@ -151,6 +232,43 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
       }
     });
 
+    // Check for personal data
+    PiiScanner.scanData(file.parsedData).forEach(finding => {
+      issues.push({
+        fileId: file.id,
+        fileName: file.name,
+        type: 'warning',
+        category: 'privacy',
+        message: `Column "${finding.column}" appears to contain ${PII_TYPE_LABELS[finding.type]}`,
+        suggestion: `Apply the "${TransformRegistry.get(PII_SUGGESTED_TRANSFORMS[finding.type])?.label}" transform when mapping this column before sharing the merged dataset`
+      });
+    });
+
+    // Check the dataset's own rules
+    RuleEngine.runRules(file.parsedData, validationRules[file.name] ?? []).forEach(result => {
+      const description = RuleEngine.describeRule(result.rule);
+      
+      if (result.error) {
+        issues.push({
+          fileId: file.id,
+          fileName: file.name,
+          type: 'warning',
+          category: 'data',
+          message: `Rule "${description}" could not run: ${result.error}`,
+          suggestion: 'Update or remove the rule'
+        });
+      } else if (result.violationCount > 0) {
+        issues.push({
+          fileId: file.id,
+          fileName: file.name,
+          type: result.rule.severity,
+          category: 'data',
+          message: `${result.violationCount} of ${result.checkedRows} rows fail "${description}"`,
+          examples: result.examples
+        });
+      }
+    });
+
     // Check for very wide tables
     if (headers.length > 50) {
       issues.push({
@@ -214,6 +332,14 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
     onValidationComplete?.(summary);
   };
 
+  // Apply fixes to a file; validation re-runs once the store updates it
+  const applyFixes = (fileId: string, fixes: DataFix[]) => {
+    const file = files.find(f => f.id === fileId);
+    if (!file || fixes.length === 0) return;
+    
+    updateFile(file.id, applyFileFixes(file, fixes));
+  };
+
   // Auto-run validation when files change
   useEffect(() => {
     if (files.length > 0) {
@@ -361,7 +487,25 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
                 
                 {Object.entries(groupedIssues).map(([fileName, issues]) => (
                   <Card key={fileName} className="p-3">
-                    <h5 className="font-medium text-gray-900 mb-2">{fileName}</h5>
+                    <div className="flex items-center justify-between mb-2">
+                      <h5 className="font-medium text-gray-900">{fileName}</h5>
+                      {issues.filter(issue => issue.fix).length > 1 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => applyFixes(
+                            issues[0].fileId,
+                            issues
+                              .flatMap(issue => issue.fix ? [issue.fix] : [])
+                              // Empty headers are named first so duplicate renaming sees the new names
+                              .sort((a, b) => Number(b.type === 'name_empty_headers') - Number(a.type === 'name_empty_headers'))
+                          )}
+                        >
+                          <Wand2 className="w-4 h-4 mr-1" />
+                          Apply all fixes
+                        </Button>
+                      )}
+                    </div>
                     
                     <div className="space-y-2">
                       {issues.map((issue, index) => (
@@ -381,7 +525,7 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
                               <Badge variant="outline" className="text-xs">
                                 {issue.category}
                               </Badge>
-                              {issue.autoFixable && (
+                              {issue.fix && (
                                 <Badge variant="outline" className="text-xs bg-blue-50 text-blue-700">
                                   Auto-fixable
                                 </Badge>
@@ -395,7 +539,31 @@ export function FileValidation({ files, onValidationComplete }: FileValidationPr
                                 💡 {issue.suggestion}
                               </p>
                             )}
+                            
+                            {issue.examples && (
+                              <div className="text-xs text-gray-600 mt-1 space-y-0.5">
+                                {issue.examples.map(example => (
+                                  <div key={example.row} className="font-mono">
+                                    Row {example.row}: {example.value || '(empty)'}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
                           </div>
+                          
+                          {issue.fix && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="flex-shrink-0"
+                              title={DataFixer.describeFix(issue.fix)}
+                              onClick={() => {
+                                if (issue.fix) applyFixes(issue.fileId, [issue.fix]);
+                              }}
+                            >
+                              Apply fix
+                            </Button>
+                          )}
                         </div>
                       ))}
                     </div>
@@ -0,0 +1,213 @@
+'use client';
+
+import { useState } from 'react';
+import { ListChecks, Plus, Trash2 } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { generateId } from '@/lib/file-utils';
+import { RULE_KIND_LABELS, RuleEngine } from '@/lib/validation-rules';
+import { useAppStore } from '@/store';
+import type { ComparisonOperator, ProcessedFile, ValidationRule, ValidationRuleKind } from '@/types';
+
+interface ValidationRulesEditorProps {
+  file: ProcessedFile;
+}
+
+const OPERATORS: ComparisonOperator[] = ['=', '!=', '<', '<=', '>', '>='];
+
+export function ValidationRulesEditor({ file }: ValidationRulesEditorProps) {
+  const [column, setColumn] = useState('');
+  const [kind, setKind] = useState<ValidationRuleKind>('not_null');
+  const [severity, setSeverity] = useState<ValidationRule['severity']>('warning');
+  const [text, setText] = useState('');
+  const [min, setMin] = useState('');
+  const [max, setMax] = useState('');
+  const [operator, setOperator] = useState<ComparisonOperator>('>=');
+  const [otherColumn, setOtherColumn] = useState('');
+
+  const { validationRules, setValidationRules } = useAppStore();
+
+  // Rules belong to the dataset name so they apply to every upload of it
+  const rules = validationRules[file.name] ?? [];
+  const { headers } = file.parsedData;
+
+  // Assemble the rule from the form, or null while required fields are missing
+  const buildRule = (): ValidationRule | null => {
+    if (!column) return null;
+    const base = { id: generateId(), column, severity };
+
+    switch (kind) {
+      case 'regex':
+        return text ? { ...base, kind, pattern: text } : null;
+      case 'range':
+        if (min === '' && max === '') return null;
+        return {
+          ...base,
+          kind,
+          min: min === '' ? undefined : Number(min),
+          max: max === '' ? undefined : Number(max),
+        };
+      case 'allowed_values': {
+        const values = text.split(',').map(value => value.trim()).filter(Boolean);
+        return values.length > 0 ? { ...base, kind, values } : null;
+      }
+      case 'compare':
+        return otherColumn ? { ...base, kind, operator, otherColumn } : null;
+      default:
+        return { ...base, kind };
+    }
+  };
+
+  const draft = buildRule();
+
+  const addRule = () => {
+    if (!draft) return;
+    setValidationRules(file.name, [...rules, draft]);
+    setText('');
+    setMin('');
+    setMax('');
+  };
+
+  const removeRule = (ruleId: string) => {
+    setValidationRules(file.name, rules.filter(rule => rule.id !== ruleId));
+  };
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center space-x-2 mb-3">
+        <ListChecks className="w-5 h-5 text-blue-600" />
+        <h4 className="font-medium text-gray-900">{file.name}</h4>
+        <Badge variant="outline" className="text-xs">{rules.length} rules</Badge>
+      </div>
+
+      <div className="space-y-2">
+        {rules.map(rule => (
+          <div key={rule.id} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+            <div className="flex items-center space-x-2 min-w-0">
+              <Badge
+                variant="outline"
+                className={`text-xs ${rule.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-orange-100 text-orange-800'}`}
+              >
+                {rule.severity}
+              </Badge>
+              <span className="text-sm text-gray-900 truncate">{RuleEngine.describeRule(rule)}</span>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => removeRule(rule.id)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={column} onValueChange={setColumn}>
+            <SelectTrigger className="w-40">
+              <SelectValue placeholder="Column" />
+            </SelectTrigger>
+            <SelectContent>
+              {headers.map(header => (
+                <SelectItem key={header} value={header}>{header}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={kind} onValueChange={(value) => setKind(value as ValidationRuleKind)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RULE_KIND_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {kind === 'regex' && (
+            <Input
+              className="w-48"
+              placeholder="^[A-Z]{3}-\d+$"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          )}
+
+          {kind === 'allowed_values' && (
+            <Input
+              className="w-48"
+              placeholder="open, closed, pending"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+            />
+          )}
+
+          {kind === 'range' && (
+            <>
+              <Input
+                className="w-24"
+                type="number"
+                placeholder="Min"
+                value={min}
+                onChange={(e) => setMin(e.target.value)}
+              />
+              <Input
+                className="w-24"
+                type="number"
+                placeholder="Max"
+                value={max}
+                onChange={(e) => setMax(e.target.value)}
+              />
+            </>
+          )}
+
+          {kind === 'compare' && (
+            <>
+              <Select value={operator} onValueChange={(value) => setOperator(value as ComparisonOperator)}>
+                <SelectTrigger className="w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {OPERATORS.map(op => (
+                    <SelectItem key={op} value={op}>{op}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={otherColumn} onValueChange={setOtherColumn}>
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Other column" />
+                </SelectTrigger>
+                <SelectContent>
+                  {headers.filter(header => header !== column).map(header => (
+                    <SelectItem key={header} value={header}>{header}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </>
+          )}
+
+          <Select value={severity} onValueChange={(value) => setSeverity(value as ValidationRule['severity'])}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="warning">Warning</SelectItem>
+              <SelectItem value="error">Error</SelectItem>
+            </SelectContent>
+          </Select>
+
+          <Button size="sm" onClick={addRule} disabled={!draft}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+}
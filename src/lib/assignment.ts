@@ -0,0 +1,78 @@
+/**
+ * Optimal assignment utilities for matching rows of a score matrix to columns
+ */
+
+/**
+ * Assign each row to at most one column so the total score is as high as possible
+ * (Hungarian algorithm, O(n³)). Rectangular matrices are padded with zero scores.
+ * Returns the assigned column per row, or -1 when a row gets no column.
+ */
+export function solveMaxAssignment(scores: number[][]): number[] {
+  const rowCount = scores.length;
+  const columnCount = rowCount > 0 ? Math.max(...scores.map(row => row.length)) : 0;
+  const n = Math.max(rowCount, columnCount);
+  if (n === 0) return [];
+
+  // Minimise cost = best score - score over a square matrix (1-based below)
+  const maxScore = Math.max(0, ...scores.flat());
+  const cost = (row: number, column: number): number => maxScore - (scores[row]?.[column] ?? 0);
+
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const match = new Array<number>(n + 1).fill(0); // column -> row
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    match[0] = row;
+    let column0 = 0;
+    const minSlack = new Array<number>(n + 1).fill(Infinity);
+    const used = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      used[column0] = true;
+      const row0 = match[column0];
+      let delta = Infinity;
+      let column1 = 0;
+
+      for (let column = 1; column <= n; column++) {
+        if (used[column]) continue;
+
+        const slack = cost(row0 - 1, column - 1) - u[row0] - v[column];
+        if (slack < minSlack[column]) {
+          minSlack[column] = slack;
+          way[column] = column0;
+        }
+        if (minSlack[column] < delta) {
+          delta = minSlack[column];
+          column1 = column;
+        }
+      }
+
+      for (let column = 0; column <= n; column++) {
+        if (used[column]) {
+          u[match[column]] += delta;
+          v[column] -= delta;
+        } else {
+          minSlack[column] -= delta;
+        }
+      }
+      column0 = column1;
+    } while (match[column0] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const column1 = way[column0];
+      match[column0] = match[column1];
+      column0 = column1;
+    } while (column0 !== 0);
+  }
+
+  const assignment = new Array<number>(rowCount).fill(-1);
+  for (let column = 1; column <= n; column++) {
+    const row = match[column] - 1;
+    if (row < rowCount && column - 1 < columnCount) {
+      assignment[row] = column - 1;
+    }
+  }
+  return assignment;
+}
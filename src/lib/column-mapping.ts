@@ -1,22 +1,63 @@
 import Fuse from 'fuse.js';
 import { levenshteinDistance } from './text-utils';
+import { ContentMatcher, type ColumnContentSignature } from './content-matching';
+import { solveMaxAssignment } from './assignment';
+import { DEFAULT_VOCABULARY, type Vocabulary } from './synonym-dictionaries';
+import { MappingMemory } from './mapping-memory';
 import type { 
   ProcessedFile, 
   ColumnSuggestion, 
   ColumnMapping, 
+  ColumnAssignment,
+  MappingDecision,
   DataType,
-  ColumnType 
+  ColumnType,
+  SemanticType 
 } from '@/types';
 
 // Column mapping utilities and algorithms
 
+// Content score needed to suggest a column whose header does not match at all
+const CONTENT_MATCH_THRESHOLD = 0.75;
+
+// Content evidence alone never reaches the certainty of an exact header match
+const CONTENT_WEIGHT = 0.85;
+
+// Runner-up targets kept to explain each assignment
+const MAX_ALTERNATIVES = 3;
+
+// Confidence of a pair the user accepted before, for the same file or another one
+const REMEMBERED_CONFIDENCE = { sameFile: 0.98, otherFile: 0.92 };
+
+// Score multiplier for a pair the user rejected before
+const REJECTED_PENALTY = { sameFile: 0.2, otherFile: 0.5 };
+
 /**
  * Smart column matching using multiple algorithms
  */
 export class ColumnMatcher {
   private fuse: Fuse<{ name: string; index: number }>;
+  private targetColumns: string[];
+  private targetSignatures?: Map<string, ColumnContentSignature>;
+  private vocabulary: Vocabulary;
+  private memory: MappingDecision[];
   
-  constructor(targetColumns: string[]) {
+  /**
+   * Target signatures, when given, let `findMatches` compare column values as well as headers.
+   * The vocabulary decides which header terms count as synonyms, and the memory holds
+   * pairs the user accepted or rejected before.
+   */
+  constructor(
+    targetColumns: string[],
+    targetSignatures?: Map<string, ColumnContentSignature>,
+    vocabulary: Vocabulary = DEFAULT_VOCABULARY,
+    memory: MappingDecision[] = []
+  ) {
+    this.targetColumns = targetColumns;
+    this.targetSignatures = targetSignatures;
+    this.vocabulary = vocabulary;
+    this.memory = memory;
+    
     const fuseOptions = {
       keys: ['name'],
       threshold: 0.6, // Lower = more strict
@@ -38,27 +79,24 @@ export class ColumnMatcher {
    * Normalize column names for better matching
    */
   private normalizeColumnName(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[_\-\s]+/g, ' ') // Replace separators with spaces
-      .replace(/\b(id|no|num|number|code)\b/g, 'identifier') // Normalize identifier terms
-      .replace(/\b(name|title|label)\b/g, 'name') // Normalize name terms
-      .replace(/\b(date|time|timestamp)\b/g, 'date') // Normalize date terms
-      .replace(/\b(amount|value|price|cost)\b/g, 'amount') // Normalize amount terms
-      .replace(/\b(email|mail)\b/g, 'email') // Normalize email terms
-      .replace(/\b(phone|tel|telephone)\b/g, 'phone') // Normalize phone terms
-      .trim();
+    return this.vocabulary.normalize(name);
   }
 
   /**
-   * Find best matches for a source column
+   * Find best matches for a source column. The file name lets decisions made
+   * for the same file outweigh those made for others.
    */
-  findMatches(sourceColumn: string, limit: number = 5): ColumnSuggestion[] {
+  findMatches(
+    sourceColumn: string, 
+    limit: number = 5, 
+    sourceSignature?: ColumnContentSignature,
+    fileName?: string
+  ): ColumnSuggestion[] {
     const normalizedSource = this.normalizeColumnName(sourceColumn);
     const suggestions: ColumnSuggestion[] = [];
 
     // 1. Exact match (highest priority)
-    const exactMatch = this.findExactMatch(normalizedSource);
+    const exactMatch = this.findExactMatch(sourceColumn, normalizedSource);
     if (exactMatch) {
       suggestions.push(exactMatch);
     }
@@ -70,7 +108,7 @@ export class ColumnMatcher {
       if (match.score !== undefined && match.score < 0.8) { // Good matches only
         const suggestion: ColumnSuggestion = {
           sourceColumn,
-          targetColumn: match.item.name,
+          targetColumn: this.targetColumns[match.item.index],
           similarity: 1 - match.score, // Convert to similarity score
           matchType: 'fuzzy'
         };
@@ -90,6 +128,14 @@ export class ColumnMatcher {
       }
     }
 
+    // 4. Value overlap, type agreement and distribution similarity
+    if (sourceSignature) {
+      this.blendContentMatches(sourceColumn, sourceSignature, suggestions);
+    }
+
+    // 5. Pairs the user accepted or rejected before
+    this.applyMemory(sourceColumn, fileName, suggestions);
+
     // Sort by similarity score (descending)
     return suggestions
       .sort((a, b) => b.similarity - a.similarity)
@@ -99,14 +145,14 @@ export class ColumnMatcher {
   /**
    * Find exact matches (case-insensitive)
    */
-  private findExactMatch(normalizedSource: string): ColumnSuggestion | null {
+  private findExactMatch(sourceColumn: string, normalizedSource: string): ColumnSuggestion | null {
     // Use fuzzy search with exact match threshold
     const exactMatches = this.fuse.search(normalizedSource, { limit: 1 });
     
     if (exactMatches.length > 0 && exactMatches[0].score === 0) {
       return {
-        sourceColumn: normalizedSource,
-        targetColumn: exactMatches[0].item.name,
+        sourceColumn,
+        targetColumn: this.targetColumns[exactMatches[0].item.index],
         similarity: 1.0,
         matchType: 'exact'
       };
@@ -135,7 +181,7 @@ export class ColumnMatcher {
           if (similarity > 0.6) {
             suggestions.push({
               sourceColumn: originalColumn,
-              targetColumn: target.name,
+              targetColumn: this.targetColumns[target.index],
               similarity,
               matchType: 'semantic'
             });
@@ -148,19 +194,58 @@ export class ColumnMatcher {
   }
 
   /**
-   * Common semantic patterns for business data
+   * Raise header-based scores with content evidence and add targets whose
+   * values match even though their headers do not
+   */
+  private blendContentMatches(
+    sourceColumn: string,
+    sourceSignature: ColumnContentSignature,
+    suggestions: ColumnSuggestion[]
+  ): void {
+    this.targetSignatures?.forEach((targetSignature, targetColumn) => {
+      const content = ContentMatcher.scoreContent(sourceSignature, targetSignature).score * CONTENT_WEIGHT;
+      const existing = suggestions.find(s => s.targetColumn === targetColumn);
+
+      if (existing) {
+        // Agreement between header and content is worth more than either alone
+        const header = existing.similarity;
+        existing.similarity = Math.min(Math.max(header, content) + 0.15 * Math.min(header, content), 1);
+        if (content > header) existing.matchType = 'content';
+      } else if (content >= CONTENT_MATCH_THRESHOLD * CONTENT_WEIGHT) {
+        suggestions.push({ sourceColumn, targetColumn, similarity: content, matchType: 'content' });
+      }
+    });
+  }
+
+  /**
+   * Promote remembered pairs to 'memory' matches and push rejected pairs down
+   */
+  private applyMemory(sourceColumn: string, fileName: string | undefined, suggestions: ColumnSuggestion[]): void {
+    for (const { decision, sameFile } of MappingMemory.recall(this.memory, sourceColumn, fileName)) {
+      if (!this.targetColumns.includes(decision.targetColumn)) continue;
+
+      const existing = suggestions.find(s => s.targetColumn === decision.targetColumn);
+      const context = sameFile ? 'sameFile' : 'otherFile';
+
+      if (decision.accepted) {
+        const similarity = REMEMBERED_CONFIDENCE[context];
+        if (existing) {
+          existing.similarity = Math.max(existing.similarity, similarity);
+          existing.matchType = 'memory';
+        } else {
+          suggestions.push({ sourceColumn, targetColumn: decision.targetColumn, similarity, matchType: 'memory' });
+        }
+      } else if (existing) {
+        existing.similarity *= REJECTED_PENALTY[context];
+      }
+    }
+  }
+
+  /**
+   * Semantic patterns for business data, from the vocabulary's categories
    */
   private getCommonPatterns(): Record<string, string[]> {
-    return {
-      identifier: ['id', 'identifier', 'key', 'code', 'num', 'ref'],
-      name: ['name', 'title', 'label', 'description'],
-      date: ['date', 'time', 'created', 'updated', 'modified'],
-      amount: ['amount', 'value', 'price', 'cost', 'total', 'sum'],
-      contact: ['email', 'phone', 'address', 'contact'],
-      status: ['status', 'state', 'flag', 'active', 'enabled'],
-      count: ['count', 'quantity', 'qty', 'number', 'total'],
-      category: ['category', 'type', 'group', 'class', 'kind']
-    };
+    return this.vocabulary.getCategories();
   }
 
   /**
@@ -215,6 +300,14 @@ export class DataTypeDetector {
     return compatibleTypes[sourceType]?.includes(targetType) || false;
   }
 
+  /**
+   * Check if two columns' detected contents can describe the same thing.
+   * Columns without a semantic type are not constrained.
+   */
+  static areSemanticTypesCompatible(sourceType?: SemanticType, targetType?: SemanticType): boolean {
+    return !sourceType || !targetType || sourceType === targetType;
+  }
+
   /**
    * Get confidence score for type conversion
    */
@@ -266,7 +359,9 @@ export class MappingGenerator {
   static generateAutoMappings(
     sourceFile: ProcessedFile,
     targetFile: ProcessedFile,
-    confidenceThreshold: number = 0.7
+    confidenceThreshold: number = 0.7,
+    vocabulary: Vocabulary = DEFAULT_VOCABULARY,
+    memory: MappingDecision[] = []
   ): ColumnMapping {
     if (!sourceFile.parsedData || !targetFile.parsedData) {
       throw new Error('Both files must have parsed data');
@@ -275,30 +370,37 @@ export class MappingGenerator {
     const sourceColumns = sourceFile.parsedData.headers;
     const targetColumns = targetFile.parsedData.headers;
     
-    const matcher = new ColumnMatcher(targetColumns);
+    const sourceSignatures = ContentMatcher.buildSignatures(sourceFile);
+    const matcher = new ColumnMatcher(targetColumns, ContentMatcher.buildSignatures(targetFile), vocabulary, memory);
     const mappings: ColumnMapping['mappings'] = [];
-
-    for (const sourceColumn of sourceColumns) {
-      const suggestions = matcher.findMatches(sourceColumn, 1);
+    
+    const getColumnTypes = (sourceColumn: string, targetColumn: string) => ({
+      sourceColType: sourceFile.parsedData.columnTypes.find(c => c.name === sourceColumn),
+      targetColType: targetFile.parsedData.columnTypes.find(c => c.name === targetColumn),
+    });
+
+    // Only data type compatible pairs compete for targets
+    const assignments = this.assignColumns(sourceColumns, targetColumns.length, matcher, {
+      sourceSignatures,
+      fileName: sourceFile.name,
+      threshold: confidenceThreshold,
+      isAllowed: (sourceColumn, targetColumn) => {
+        const { sourceColType, targetColType } = getColumnTypes(sourceColumn, targetColumn);
+        return !!sourceColType && !!targetColType &&
+          DataTypeDetector.areTypesCompatible(sourceColType.type, targetColType.type) &&
+          DataTypeDetector.areSemanticTypesCompatible(sourceColType.semanticType, targetColType.semanticType);
+      },
+    });
+
+    for (const { sourceColumn, match } of assignments) {
+      const { sourceColType, targetColType } = getColumnTypes(sourceColumn, match.targetColumn);
       
-      if (suggestions.length > 0 && suggestions[0].similarity >= confidenceThreshold) {
-        const bestMatch = suggestions[0];
-        
-        // Check data type compatibility
-        const sourceColType = sourceFile.parsedData.columnTypes.find(c => c.name === sourceColumn);
-        const targetColType = targetFile.parsedData.columnTypes.find(c => c.name === bestMatch.targetColumn);
-        
-        if (sourceColType && targetColType) {
-          const isCompatible = DataTypeDetector.areTypesCompatible(sourceColType.type, targetColType.type);
-          
-          if (isCompatible) {
-            mappings.push({
-              sourceColumn,
-              targetColumn: bestMatch.targetColumn,
-              transform: MappingGenerator.getRecommendedTransform(sourceColType.type, targetColType.type)
-            });
-          }
-        }
+      if (sourceColType && targetColType) {
+        mappings.push({
+          sourceColumn,
+          targetColumn: match.targetColumn,
+          transform: MappingGenerator.getRecommendedTransform(sourceColType.type, targetColType.type)
+        });
       }
     }
 
@@ -311,6 +413,79 @@ export class MappingGenerator {
     };
   }
 
+  /**
+   * Assign source columns to distinct targets, maximising total similarity over the
+   * whole matrix instead of letting each column take its best match independently
+   */
+  static assignColumns(
+    sourceColumns: string[],
+    targetCount: number,
+    matcher: ColumnMatcher,
+    options: {
+      sourceSignatures?: Map<string, ColumnContentSignature>;
+      fileName?: string; // file the source columns come from, for remembered decisions
+      threshold?: number;
+      isAllowed?: (sourceColumn: string, targetColumn: string) => boolean;
+    } = {}
+  ): ColumnAssignment[] {
+    const { sourceSignatures, fileName, threshold = 0.7, isAllowed } = options;
+
+    // Candidate targets per source column, best first
+    const candidates = sourceColumns.map(sourceColumn =>
+      matcher
+        .findMatches(sourceColumn, targetCount, sourceSignatures?.get(sourceColumn), fileName)
+        .filter(s => s.similarity >= threshold && (!isAllowed || isAllowed(sourceColumn, s.targetColumn)))
+    );
+
+    const targets = [...new Set(candidates.flat().map(s => s.targetColumn))];
+    const scores = candidates.map(suggestions =>
+      targets.map(target => suggestions.find(s => s.targetColumn === target)?.similarity ?? 0)
+    );
+    const assigned = solveMaxAssignment(scores);
+
+    // Which source column ended up with each target
+    const owners = new Map<string, string>();
+    assigned.forEach((targetIndex, sourceIndex) => {
+      if (targetIndex !== -1 && scores[sourceIndex][targetIndex] > 0) {
+        owners.set(targets[targetIndex], sourceColumns[sourceIndex]);
+      }
+    });
+
+    return sourceColumns.flatMap((sourceColumn, sourceIndex) => {
+      const targetIndex = assigned[sourceIndex];
+      const match = candidates[sourceIndex].find(s => s.targetColumn === targets[targetIndex]);
+      if (targetIndex === -1 || !match) return [];
+
+      const alternatives = candidates[sourceIndex]
+        .filter(s => s !== match)
+        .slice(0, MAX_ALTERNATIVES)
+        .map(suggestion => ({
+          suggestion,
+          margin: match.similarity - suggestion.similarity,
+          assignedTo: owners.get(suggestion.targetColumn),
+        }));
+
+      return [{ sourceColumn, match, alternatives }];
+    });
+  }
+
+  /**
+   * One-line explanation of why an assignment beat its runner-up
+   */
+  static explainAssignment(assignment: ColumnAssignment): string {
+    const runnerUp = assignment.alternatives[0];
+    if (!runnerUp) return 'No other candidate';
+
+    const { targetColumn, similarity } = runnerUp.suggestion;
+    const score = `${Math.round(similarity * 100)}%`;
+
+    // A better-scoring runner-up only loses when another column needs it more
+    if (runnerUp.margin <= 0 && runnerUp.assignedTo) {
+      return `${targetColumn} (${score}) went to ${runnerUp.assignedTo}`;
+    }
+    return `Next best: ${targetColumn} (${score}, ${Math.round(runnerUp.margin * 100)} points lower)`;
+  }
+
   /**
    * Get recommended transformation based on data types
    */
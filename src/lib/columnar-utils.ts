@@ -0,0 +1,150 @@
+import { DataType as ArrowType, util, type Field } from 'apache-arrow';
+import type { SchemaTree } from 'hyparquet';
+import type { DataType } from '@/types';
+
+/**
+ * Schema mapping utilities for columnar formats (Parquet, Arrow IPC / Feather)
+ */
+
+export interface DeclaredColumn {
+  name: string;
+  type: DataType;
+}
+
+/**
+ * Map a Parquet schema node onto our DataType
+ */
+export function mapParquetType(node: SchemaTree): DataType {
+  const { element } = node;
+  
+  // Groups (structs, lists, maps) are carried as JSON text
+  if (node.children.length > 0) return 'string';
+  
+  switch (element.logical_type?.type) {
+    case 'STRING':
+    case 'ENUM':
+    case 'UUID':
+    case 'JSON':
+    case 'TIME':
+      return 'string';
+    case 'DATE':
+    case 'TIMESTAMP':
+      return 'date';
+    case 'INTEGER':
+    case 'DECIMAL':
+    case 'FLOAT16':
+      return 'number';
+  }
+  
+  switch (element.converted_type) {
+    case 'UTF8':
+    case 'ENUM':
+    case 'JSON':
+    case 'TIME_MILLIS':
+    case 'TIME_MICROS':
+      return 'string';
+    case 'DATE':
+    case 'TIMESTAMP_MILLIS':
+    case 'TIMESTAMP_MICROS':
+      return 'date';
+    case 'DECIMAL':
+    case 'INT_8':
+    case 'INT_16':
+    case 'INT_32':
+    case 'INT_64':
+    case 'UINT_8':
+    case 'UINT_16':
+    case 'UINT_32':
+    case 'UINT_64':
+      return 'number';
+  }
+  
+  switch (element.type) {
+    case 'BOOLEAN':
+      return 'boolean';
+    case 'INT32':
+    case 'INT64':
+    case 'FLOAT':
+    case 'DOUBLE':
+      return 'number';
+    case 'INT96':
+      return 'date';
+    case 'BYTE_ARRAY':
+    case 'FIXED_LEN_BYTE_ARRAY':
+      return 'string';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Map an Arrow field type onto our DataType
+ */
+export function mapArrowType(field: Field): DataType {
+  const type = ArrowType.isDictionary(field.type) ? field.type.dictionary : field.type;
+  
+  if (ArrowType.isBool(type)) return 'boolean';
+  if (ArrowType.isInt(type) || ArrowType.isFloat(type) || ArrowType.isDecimal(type)) return 'number';
+  if (ArrowType.isDate(type) || ArrowType.isTimestamp(type)) return 'date';
+  if (ArrowType.isNull(type)) return 'unknown';
+  
+  return 'string';
+}
+
+/**
+ * Read an Arrow value in a form `normalizeColumnarValue` understands.
+ * Decimals come back as their unscaled integer words, so they are scaled here.
+ */
+export function decodeArrowValue(value: unknown, field: Field): unknown {
+  const type = ArrowType.isDictionary(field.type) ? field.type.dictionary : field.type;
+  if (value === null || value === undefined || !ArrowType.isDecimal(type)) return value;
+  
+  // Whole decimals go through the bigint path so large ones keep their digits
+  const words = value as Parameters<typeof util.bigNumToNumber>[0];
+  return type.scale > 0 ? util.bigNumToNumber(words, type.scale) : BigInt(util.bigNumToString(words));
+}
+
+/**
+ * Convert a decoded columnar value into a cell value for the declared type
+ */
+export function normalizeColumnarValue(
+  value: unknown,
+  type: DataType
+): string | number | boolean | Date | null {
+  if (value === null || value === undefined) return null;
+  
+  switch (type) {
+    case 'number':
+      if (typeof value === 'bigint') return bigIntToCell(value);
+      return typeof value === 'number' ? value : Number(value);
+      
+    case 'date':
+      if (value instanceof Date) return value;
+      if (typeof value === 'number') return new Date(value);
+      if (typeof value === 'bigint') return new Date(Number(value));
+      return String(value);
+      
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value);
+      
+    default:
+      if (value instanceof Date) return value;
+      if (typeof value === 'bigint') return value.toString();
+      if (typeof value === 'object') return stringifyNested(value);
+      return String(value);
+  }
+}
+
+// Large 64-bit integers (typically IDs) keep their exact digits as text
+function bigIntToCell(value: bigint): number | string {
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value.toString();
+}
+
+function stringifyNested(value: object): string {
+  // Arrow vectors and rows expose toJSON; plain objects stringify directly
+  return JSON.stringify(value, (_key, nested) => 
+    typeof nested === 'bigint' ? nested.toString() : nested
+  );
+}
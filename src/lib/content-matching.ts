@@ -0,0 +1,182 @@
+import type { ColumnType, DataType, ProcessedFile, SemanticType } from '@/types';
+
+// Content-based column matching
+
+// Values sampled per column
+const CONTENT_SAMPLE_ROWS = 1000;
+
+// MinHash signature length; the Jaccard estimate is within about ±0.12 at 64
+const MINHASH_SIZE = 64;
+
+// Columns with fewer distinct values than this (flags, statuses) overlap by accident
+const MIN_INFORMATIVE_VALUES = 10;
+
+// Quantiles compared between numeric columns
+const DISTRIBUTION_QUANTILES = [0.1, 0.25, 0.5, 0.75, 0.9];
+
+type Cell = string | number | boolean | Date | null;
+
+/**
+ * Compact summary of a column's values used to compare it with other columns
+ */
+export interface ColumnContentSignature {
+  type: DataType;
+  semanticType?: SemanticType;
+  format?: string; // number unit or date pattern
+  distinctCount: number;
+  minHash: Uint32Array;
+  quantiles?: number[]; // numeric columns only
+}
+
+export interface ContentScore {
+  score: number; // 0-1 blend of the parts below
+  overlap: number; // estimated share of the smaller column's values found in the other
+  typeAgreement: number;
+  distribution?: number; // numeric columns only
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const fnv1a = (text: string, seed = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Scores how likely two columns hold the same data, whatever their headers say
+ */
+export class ContentMatcher {
+  /**
+   * Signatures for every column of a file, keyed by header
+   */
+  static buildSignatures(file: ProcessedFile): Map<string, ColumnContentSignature> {
+    const signatures = new Map<string, ColumnContentSignature>();
+    if (!file.parsedData) return signatures;
+
+    const { headers, rows, columnTypes } = file.parsedData;
+    const sample = rows.slice(0, CONTENT_SAMPLE_ROWS);
+
+    headers.forEach((header, index) => {
+      const columnType = columnTypes[index];
+      if (!columnType || signatures.has(header)) return;
+      signatures.set(header, this.buildSignature(columnType, sample.map(row => row[index])));
+    });
+
+    return signatures;
+  }
+
+  /**
+   * Signature for a single column's sampled values
+   */
+  static buildSignature(columnType: ColumnType, values: Cell[]): ColumnContentSignature {
+    const present = values.filter((value): value is Exclude<Cell, null> => value !== null && value !== undefined);
+    const distinct = new Set(present.map(value => this.valueKey(value)));
+    const numbers = present.filter((value): value is number => typeof value === 'number').sort((a, b) => a - b);
+
+    return {
+      type: columnType.type,
+      semanticType: columnType.semanticType,
+      format: columnType.numberFormat?.unit ?? columnType.dateFormat?.pattern,
+      distinctCount: distinct.size,
+      minHash: this.computeMinHash(distinct),
+      quantiles: columnType.type === 'number' && numbers.length > 0
+        ? DISTRIBUTION_QUANTILES.map(q => numbers[Math.floor((numbers.length - 1) * q)])
+        : undefined,
+    };
+  }
+
+  /**
+   * Compare two column signatures
+   */
+  static scoreContent(source: ColumnContentSignature, target: ColumnContentSignature): ContentScore {
+    const overlap = this.estimateContainment(source, target);
+    const typeAgreement = this.getTypeAgreement(source, target);
+
+    if (source.quantiles && target.quantiles) {
+      const distribution = this.compareDistributions(source.quantiles, target.quantiles);
+      return {
+        score: overlap * 0.5 + typeAgreement * 0.2 + distribution * 0.3,
+        overlap,
+        typeAgreement,
+        distribution,
+      };
+    }
+
+    return { score: overlap * 0.75 + typeAgreement * 0.25, overlap, typeAgreement };
+  }
+
+  /**
+   * Share of the smaller column's distinct values that also appear in the larger one,
+   * derived from the MinHash Jaccard estimate so foreign keys still match their table
+   */
+  private static estimateContainment(a: ColumnContentSignature, b: ColumnContentSignature): number {
+    const smaller = Math.min(a.distinctCount, b.distinctCount);
+    if (smaller === 0) return 0;
+
+    let equal = 0;
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      if (a.minHash[i] === b.minHash[i]) equal++;
+    }
+    const jaccard = equal / MINHASH_SIZE;
+
+    const intersection = (jaccard * (a.distinctCount + b.distinctCount)) / (1 + jaccard);
+    const containment = Math.min(intersection / smaller, 1);
+
+    // Low-cardinality columns share values by chance
+    return containment * Math.min(smaller / MIN_INFORMATIVE_VALUES, 1);
+  }
+
+  /**
+   * 1 when type, semantic type and format all agree, 0 when the types differ
+   */
+  private static getTypeAgreement(a: ColumnContentSignature, b: ColumnContentSignature): number {
+    if (a.type !== b.type) return 0;
+
+    const semanticAgrees = a.semanticType === b.semanticType ? 1 : 0;
+    const formatAgrees = a.format === b.format ? 1 : 0;
+    return 0.5 + semanticAgrees * 0.3 + formatAgrees * 0.2;
+  }
+
+  /**
+   * Similarity of two numeric distributions from their quantiles, scaled by their combined range
+   */
+  private static compareDistributions(a: number[], b: number[]): number {
+    const range = Math.max(...a, ...b) - Math.min(...a, ...b);
+    if (range === 0) return 1;
+
+    const meanDifference = a.reduce((sum, value, i) => sum + Math.abs(value - b[i]), 0) / a.length;
+    return Math.max(0, 1 - meanDifference / range);
+  }
+
+  /**
+   * Minimum of each seeded hash over a set of values
+   */
+  private static computeMinHash(values: Set<string>): Uint32Array {
+    const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+
+    values.forEach(value => {
+      // Derive every hash from two base hashes (Kirsch-Mitzenmacher)
+      const h1 = fnv1a(value);
+      const h2 = fnv1a(value, 0x5bd1e995) | 1;
+      for (let i = 0; i < MINHASH_SIZE; i++) {
+        const hash = (h1 + Math.imul(i, h2)) >>> 0;
+        if (hash < signature[i]) signature[i] = hash;
+      }
+    });
+
+    return signature;
+  }
+
+  /**
+   * Comparable text form of a value: trimmed, case-insensitive, dates by day
+   */
+  private static valueKey(value: Exclude<Cell, null>): string {
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    return String(value).trim().toLowerCase();
+  }
+}
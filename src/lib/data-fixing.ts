@@ -0,0 +1,188 @@
+import type { ColumnType, DataFix } from '@/types';
+
+// Data cleanup fixes offered by validation
+
+type Cell = string | number | boolean | Date | null;
+
+// Categorical columns have at most this many distinct values
+const MAX_CATEGORY_VALUES = 50;
+
+/**
+ * Finds fixable problems in parsed data and applies the matching fixes
+ */
+export class DataFixer {
+  /**
+   * Apply a fix to headers and rows, returning new arrays
+   */
+  static applyFix(
+    headers: string[],
+    rows: Cell[][],
+    fix: DataFix
+  ): { headers: string[]; rows: Cell[][] } {
+    switch (fix.type) {
+      case 'rename_duplicate_headers':
+        return { headers: this.renameDuplicates(headers), rows };
+
+      case 'name_empty_headers':
+        return {
+          headers: headers.map((header, index) => this.isBlankHeader(header) ? `Column ${index + 1}` : header),
+          rows,
+        };
+
+      // Applies to every column, so header fixes and duplicate names cannot make it miss one
+      case 'trim_whitespace':
+        return {
+          headers,
+          rows: rows.map(row => row.map(cell => typeof cell === 'string' ? this.tidyText(cell) : cell)),
+        };
+
+      case 'drop_empty_rows':
+        return { headers, rows: rows.filter(row => !row.every(this.isEmptyCell)) };
+
+      case 'drop_empty_columns': {
+        const keep = headers.map((_, index) => !rows.every(row => this.isEmptyCell(row[index] ?? null)));
+        return {
+          headers: headers.filter((_, index) => keep[index]),
+          rows: rows.map(row => row.filter((_, index) => keep[index])),
+        };
+      }
+
+      case 'normalize_casing': {
+        const index = headers.indexOf(fix.column);
+        if (index === -1) return { headers, rows };
+
+        const canonical = this.getCanonicalSpellings(rows.map(row => row[index]));
+        return {
+          headers,
+          rows: rows.map(row => row.map((cell, cellIndex) =>
+            cellIndex === index && typeof cell === 'string'
+              ? canonical.get(cell.toLowerCase()) ?? cell
+              : cell
+          )),
+        };
+      }
+    }
+  }
+
+  /**
+   * Short label for a fix button
+   */
+  static describeFix(fix: DataFix): string {
+    switch (fix.type) {
+      case 'rename_duplicate_headers': return 'Add suffixes to duplicate names';
+      case 'name_empty_headers': return 'Name empty columns';
+      case 'trim_whitespace': return 'Trim whitespace';
+      case 'drop_empty_rows': return 'Remove empty rows';
+      case 'drop_empty_columns': return 'Remove empty columns';
+      case 'normalize_casing': return `Use one spelling per value in "${fix.column}"`;
+    }
+  }
+
+  /**
+   * Headers that repeat an earlier header
+   */
+  static findDuplicateHeaders(headers: string[]): string[] {
+    return headers.filter((header, index) => headers.indexOf(header) !== index);
+  }
+
+  /**
+   * Number of headers with no name
+   */
+  static countEmptyHeaders(headers: string[]): number {
+    return headers.filter(header => this.isBlankHeader(header)).length;
+  }
+
+  /**
+   * Columns with text cells that have padding or repeated inner spaces
+   */
+  static findUntidyColumns(headers: string[], rows: Cell[][]): string[] {
+    return headers.filter((_, index) =>
+      rows.some(row => typeof row[index] === 'string' && this.tidyText(row[index] as string) !== row[index])
+    );
+  }
+
+  /**
+   * Number of rows where every cell is empty
+   */
+  static countEmptyRows(rows: Cell[][]): number {
+    return rows.filter(row => row.every(this.isEmptyCell)).length;
+  }
+
+  /**
+   * Columns where every cell is empty
+   */
+  static findEmptyColumns(headers: string[], rows: Cell[][]): string[] {
+    if (rows.length === 0) return [];
+    return headers.filter((_, index) => rows.every(row => this.isEmptyCell(row[index] ?? null)));
+  }
+
+  /**
+   * Categorical text columns where one value is spelled with different casing,
+   * e.g. `Active`, `active` and `ACTIVE`
+   */
+  static findInconsistentCasing(
+    headers: string[],
+    rows: Cell[][],
+    columnTypes: ColumnType[]
+  ): { column: string; variants: string[] }[] {
+    return headers.flatMap((header, index) => {
+      if (columnTypes[index]?.type !== 'string') return [];
+
+      const distinct = new Set(rows.map(row => row[index]).filter((cell): cell is string => typeof cell === 'string'));
+      if (distinct.size > MAX_CATEGORY_VALUES) return [];
+
+      const spellings = new Map<string, string[]>();
+      distinct.forEach(value => {
+        const key = value.toLowerCase();
+        spellings.set(key, [...(spellings.get(key) || []), value]);
+      });
+
+      const variants = [...spellings.values()].filter(group => group.length > 1).flat();
+      return variants.length > 0 ? [{ column: header, variants }] : [];
+    });
+  }
+
+  /**
+   * Most frequent spelling for each case-insensitive value
+   */
+  private static getCanonicalSpellings(values: Cell[]): Map<string, string> {
+    const counts = new Map<string, number>();
+    values.forEach(value => {
+      if (typeof value === 'string') counts.set(value, (counts.get(value) || 0) + 1);
+    });
+
+    const canonical = new Map<string, string>();
+    [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([value]) => {
+        const key = value.toLowerCase();
+        if (!canonical.has(key)) canonical.set(key, value);
+      });
+
+    return canonical;
+  }
+
+  private static renameDuplicates(headers: string[]): string[] {
+    const seen = new Set<string>();
+    return headers.map(header => {
+      let name = header;
+      for (let suffix = 2; seen.has(name); suffix++) {
+        name = `${header}_${suffix}`;
+      }
+      seen.add(name);
+      return name;
+    });
+  }
+
+  private static tidyText(text: string): string {
+    return text.trim().replace(/\s{2,}/g, ' ');
+  }
+
+  private static isBlankHeader(header: string): boolean {
+    return !header || header.trim() === '';
+  }
+
+  private static isEmptyCell(cell: Cell): boolean {
+    return cell === null || (typeof cell === 'string' && cell.trim() === '');
+  }
+}
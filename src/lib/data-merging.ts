@@ -1,10 +1,15 @@
-import { format, parseISO } from 'date-fns';
 import { groupBy, isEqual, orderBy } from 'lodash';
+import { TargetSchemas } from './target-schema';
+import { checkSplit, combineValues, getMappedSources, getMappedTargets, getOutputColumns, splitValue } from './mapping-utils';
+import { Expressions } from './expressions';
+import { TransformRegistry } from './transform-registry';
 import type { 
   ProcessedFile, 
   ColumnMapping, 
+  DerivedColumn,
   ProcessedDataset,
-  DataType 
+  DataType,
+  TargetSchema 
 } from '@/types';
 
 /**
@@ -17,6 +22,7 @@ export interface MergeOptions {
   handleDuplicates: 'keep_first' | 'keep_last' | 'merge_values';
   validateTypes: boolean;
   maxRows?: number;
+  targetSchema?: TargetSchema; // fixes the output columns and their order
 }
 
 export interface MergeResult {
@@ -40,102 +46,138 @@ export class DataTransformer {
    * Transform data according to mapping configuration
    */
   static transformData(
-    data: (string | number | Date | null)[][],
+    data: (string | number | boolean | Date | null)[][],
     headers: string[],
-    mapping: ColumnMapping['mappings']
-  ): { headers: string[]; data: (string | number | Date | null)[][] } {
+    mapping: ColumnMapping['mappings'],
+    derivedColumns: DerivedColumn[] = []
+  ): { headers: string[]; data: (string | number | boolean | Date | null)[][]; warnings: string[] } {
     const transformedHeaders: string[] = [];
     const columnIndexMap = new Map<string, number>();
     
+    // Expressions are compiled once; one that does not compile fails the merge
+    const derived = derivedColumns.map((column, index) => {
+      const available = [...headers, ...derivedColumns.slice(0, index).map(d => d.targetColumn)];
+      try {
+        return { targetColumn: column.targetColumn, expression: Expressions.compile(column.expression, available) };
+      } catch (error) {
+        throw new Error(`Derived column "${column.targetColumn}": ${error instanceof Error ? error.message : 'invalid expression'}`);
+      }
+    });
+    const warnings: string[] = [];
+    
+    // Cells that fail keep going; each kind of failure is reported once with a count
+    const failures = new Map<string, { rows: number; message: string }>();
+    const recordFailure = (subject: string, error: unknown) => {
+      const failure = failures.get(subject);
+      failures.set(subject, {
+        rows: (failure?.rows ?? 0) + 1,
+        message: failure?.message ?? (error instanceof Error ? error.message : 'unknown error')
+      });
+    };
+    
+    // A transform that is not registered, or whose parameters cannot work, is skipped
+    const transforms = mapping.map(map => {
+      if (!map.transform || map.transform === 'none') return null;
+      const problem = TransformRegistry.validate(map.transform, map.transformParams);
+      if (problem) {
+        warnings.push(`${problem}; "${map.targetColumn}" was left untransformed`);
+        return null;
+      }
+      return TransformRegistry.get(map.transform)!;
+    });
+    
+    // A split whose pattern cannot work leaves its value in the first target
+    const splits = mapping.map(map => {
+      if (!map.split) return null;
+      const problem = checkSplit(map.split);
+      if (problem) {
+        warnings.push(`Split pattern for "${map.targetColumn}" is invalid (${problem}); the value was not split`);
+        return null;
+      }
+      return map.split;
+    });
+    
     // Build column index map
     headers.forEach((header, index) => {
       columnIndexMap.set(header, index);
     });
     
-    // Create new headers based on mapping
-    const mappingMap = new Map<string, ColumnMapping['mappings'][0]>();
+    // Create new headers based on mapping; a split fills several targets
     mapping.forEach(map => {
-      mappingMap.set(map.sourceColumn, map);
-      transformedHeaders.push(map.targetColumn);
+      transformedHeaders.push(...getMappedTargets(map));
     });
+    transformedHeaders.push(...derived.map(column => column.targetColumn));
     
     // Transform data rows
     const transformedData = data.map(row => {
-      const newRow: (string | number | Date | null)[] = [];
+      const newRow: (string | number | boolean | Date | null)[] = [];
       
-      mapping.forEach(map => {
-        const sourceIndex = columnIndexMap.get(map.sourceColumn);
-        let value = sourceIndex !== undefined ? row[sourceIndex] : null;
+      mapping.forEach((map, mapIndex) => {
+        const readColumn = (column: string) => {
+          const sourceIndex = columnIndexMap.get(column);
+          return sourceIndex !== undefined ? row[sourceIndex] : null;
+        };
         
-        // Apply transformation
-        if (value !== null && map.transform) {
-          value = this.applyTransformation(value, map.transform, map.transformParams);
-        }
+        // Several sources combine into one value before it is split or transformed
+        const sources = getMappedSources(map);
+        const value = sources.length > 1 && map.combine
+          ? combineValues(sources.map(readColumn), map.combine)
+          : readColumn(map.sourceColumn);
         
-        newRow.push(value);
+        const targetCount = getMappedTargets(map).length;
+        const split = splits[mapIndex];
+        const values = targetCount > 1 && split
+          ? splitValue(value, split, targetCount)
+          : [value, ...new Array(targetCount - 1).fill(null)];
+        
+        // Apply transformation
+        const transform = transforms[mapIndex];
+        values.forEach(part => {
+          if (part === null || !transform) {
+            newRow.push(part);
+            return;
+          }
+          try {
+            newRow.push(TransformRegistry.apply(transform.id, part, map.transformParams));
+          } catch (error) {
+            recordFailure(`Transform "${transform.label}" left "${map.targetColumn}" unchanged`, error);
+            newRow.push(part);
+          }
+        });
       });
       
+      // Derived columns see the source row and the derived values before them
+      if (derived.length > 0) {
+        const scope: Record<string, string | number | boolean | Date | null> = Object.create(null);
+        headers.forEach((header, index) => {
+          scope[header] = row[index] ?? null;
+        });
+        
+        derived.forEach(({ targetColumn, expression }) => {
+          let value: string | number | boolean | Date | null = null;
+          try {
+            value = expression.evaluate(scope);
+          } catch (error) {
+            recordFailure(`Derived column "${targetColumn}" was left empty`, error);
+          }
+          scope[targetColumn] = value;
+          newRow.push(value);
+        });
+      }
+      
       return newRow;
     });
     
+    failures.forEach((failure, subject) => {
+      warnings.push(`${subject} for ${failure.rows} row(s): ${failure.message}`);
+    });
+    
     return {
       headers: transformedHeaders,
-      data: transformedData
+      data: transformedData,
+      warnings
     };
   }
-
-  /**
-   * Apply specific transformation to a value
-   */
-  private static applyTransformation(
-    value: string | number | Date | null,
-    transform: ColumnMapping['mappings'][0]['transform'],
-    params?: Record<string, string | number | boolean>
-  ): string | number | Date | null {
-    if (value === null) return null;
-    
-    switch (transform) {
-      case 'uppercase':
-        return String(value).toUpperCase();
-        
-      case 'lowercase':
-        return String(value).toLowerCase();
-        
-      case 'date_format':
-        if (value instanceof Date) {
-          const formatString = (params?.format as string) || 'yyyy-MM-dd';
-          return format(value, formatString);
-        }
-        if (typeof value === 'string') {
-          try {
-            const date = parseISO(value);
-            const formatString = (params?.format as string) || 'yyyy-MM-dd';
-            return format(date, formatString);
-          } catch {
-            return value;
-          }
-        }
-        return String(value);
-        
-      case 'number_format':
-        if (typeof value === 'number') {
-          const decimals = (params?.decimals as number) || 2;
-          return Number(value.toFixed(decimals));
-        }
-        if (typeof value === 'string') {
-          const num = parseFloat(value);
-          if (!isNaN(num)) {
-            const decimals = (params?.decimals as number) || 2;
-            return Number(num.toFixed(decimals));
-          }
-        }
-        return value;
-        
-      case 'none':
-      default:
-        return value;
-    }
-  }
 }
 
 /**
@@ -163,11 +205,25 @@ export class DataMerger {
         throw new Error('No column mappings provided');
       }
       
+      // Output that breaks the schema's contract is not worth producing
+      if (options.targetSchema) {
+        const sources = mappings.map(mapping => ({
+          name: files.find(f => f.id === mapping.sourceFileId)?.name ?? mapping.sourceFileId,
+          columns: getOutputColumns(mapping),
+        }));
+        const missing = TargetSchemas.findMissingRequired(options.targetSchema, sources, !!options.joinKey);
+        if (missing.length > 0) {
+          throw new Error(`Required columns are not mapped: ${missing
+            .map(({ column, missingFrom }) => `${column.name} (missing from ${missingFrom.join(', ')})`)
+            .join('; ')}`);
+        }
+      }
+      
       // Transform each file according to its mapping
       const transformedFiles: Array<{
         file: ProcessedFile;
         headers: string[];
-        data: (string | number | Date | null)[][];
+        data: (string | number | boolean | Date | null)[][];
       }> = [];
       
       for (const mapping of mappings) {
@@ -180,8 +236,10 @@ export class DataMerger {
         const transformed = DataTransformer.transformData(
           file.parsedData.rows,
           file.parsedData.headers,
-          mapping.mappings
+          mapping.mappings,
+          mapping.derivedColumns
         );
+        warnings.push(...transformed.warnings.map(warning => `${file.name}: ${warning}`));
         
         transformedFiles.push({
           file,
@@ -195,7 +253,17 @@ export class DataMerger {
       }
       
       // Create unified schema
-      const unifiedHeaders = this.createUnifiedSchema(transformedFiles.map(tf => tf.headers));
+      const unifiedHeaders = options.targetSchema
+        ? options.targetSchema.columns.map(column => column.name)
+        : this.createUnifiedSchema(transformedFiles.map(tf => tf.headers));
+      
+      if (options.targetSchema) {
+        const outside = [...new Set(transformedFiles.flatMap(tf => tf.headers))]
+          .filter(header => !unifiedHeaders.includes(header));
+        if (outside.length > 0) {
+          warnings.push(`Columns not in the target schema were left out: ${outside.join(', ')}`);
+        }
+      }
       
       // Merge data
       const mergeResult = await this.performMerge(transformedFiles, unifiedHeaders, options);
@@ -274,15 +342,15 @@ export class DataMerger {
     transformedFiles: Array<{
       file: ProcessedFile;
       headers: string[];
-      data: (string | number | Date | null)[][];
+      data: (string | number | boolean | Date | null)[][];
     }>,
     unifiedHeaders: string[],
     options: MergeOptions
   ): Promise<{
-    data: (string | number | Date | null)[][];
+    data: (string | number | boolean | Date | null)[][];
     stats: MergeResult['stats'];
   }> {
-    let mergedData: (string | number | Date | null)[][] = [];
+    let mergedData: (string | number | boolean | Date | null)[][] = [];
     let totalRows = 0;
     let droppedRows = 0;
     let duplicateRows = 0;
@@ -364,10 +432,10 @@ export class DataMerger {
    * Align data to unified schema
    */
   private static alignDataToSchema(
-    data: (string | number | Date | null)[][],
+    data: (string | number | boolean | Date | null)[][],
     currentHeaders: string[],
     unifiedHeaders: string[]
-  ): (string | number | Date | null)[][] {
+  ): (string | number | boolean | Date | null)[][] {
     const headerIndexMap = new Map<string, number>();
     currentHeaders.forEach((header, index) => {
       headerIndexMap.set(header, index);
@@ -381,16 +449,24 @@ export class DataMerger {
     });
   }
 
+  /**
+   * Text a join matches a key cell by. Keys compare as written, untrimmed,
+   * and empty cells share the empty key.
+   */
+  static toJoinKey(value: string | number | boolean | Date | null): string {
+    return String(value || '');
+  }
+
   /**
    * Perform key-based join between datasets
    */
   private static performKeyBasedJoin(
-    leftData: (string | number | Date | null)[][],
-    rightData: (string | number | Date | null)[][],
+    leftData: (string | number | boolean | Date | null)[][],
+    rightData: (string | number | boolean | Date | null)[][],
     headers: string[],
     joinKey: string,
     joinType: 'inner' | 'left' | 'right' | 'full'
-  ): { data: (string | number | Date | null)[][]; droppedRows: number } {
+  ): { data: (string | number | boolean | Date | null)[][]; droppedRows: number } {
     const joinKeyIndex = headers.indexOf(joinKey);
     if (joinKeyIndex === -1) {
       // If join key not found, fallback to append
@@ -398,20 +474,20 @@ export class DataMerger {
     }
     
     // Create lookup maps
-    const leftMap = new Map<string, (string | number | Date | null)[]>();
-    const rightMap = new Map<string, (string | number | Date | null)[]>();
+    const leftMap = new Map<string, (string | number | boolean | Date | null)[]>();
+    const rightMap = new Map<string, (string | number | boolean | Date | null)[]>();
     
     leftData.forEach(row => {
-      const key = String(row[joinKeyIndex] || '');
+      const key = this.toJoinKey(row[joinKeyIndex]);
       leftMap.set(key, row);
     });
     
     rightData.forEach(row => {
-      const key = String(row[joinKeyIndex] || '');
+      const key = this.toJoinKey(row[joinKeyIndex]);
       rightMap.set(key, row);
     });
     
-    const result: (string | number | Date | null)[][] = [];
+    const result: (string | number | boolean | Date | null)[][] = [];
     const processedKeys = new Set<string>();
     let droppedRows = 0;
     
@@ -468,11 +544,11 @@ export class DataMerger {
    * Merge two rows (for joins)
    */
   private static mergeRows(
-    leftRow: (string | number | Date | null)[] | null,
-    rightRow: (string | number | Date | null)[] | null,
+    leftRow: (string | number | boolean | Date | null)[] | null,
+    rightRow: (string | number | boolean | Date | null)[] | null,
     headers: string[]
-  ): (string | number | Date | null)[] {
-    const result: (string | number | Date | null)[] = new Array(headers.length).fill(null);
+  ): (string | number | boolean | Date | null)[] {
+    const result: (string | number | boolean | Date | null)[] = new Array(headers.length).fill(null);
     
     if (leftRow) {
       leftRow.forEach((value, index) => {
@@ -497,15 +573,15 @@ export class DataMerger {
    * Handle duplicate rows
    */
   private static handleDuplicates(
-    data: (string | number | Date | null)[][],
+    data: (string | number | boolean | Date | null)[][],
     strategy: 'keep_first' | 'keep_last' | 'merge_values'
-  ): { data: (string | number | Date | null)[][]; duplicatesRemoved: number } {
+  ): { data: (string | number | boolean | Date | null)[][]; duplicatesRemoved: number } {
     if (strategy === 'keep_first') {
       return { data, duplicatesRemoved: 0 };
     }
     
     const seen = new Map<string, number>();
-    const result: (string | number | Date | null)[][] = [];
+    const result: (string | number | boolean | Date | null)[][] = [];
     let duplicatesRemoved = 0;
     
     data.forEach((row, index) => {
@@ -532,7 +608,7 @@ export class DataMerger {
    * Convert array format to record format
    */
   private static convertToRecordFormat(
-    data: (string | number | Date | null)[][],
+    data: (string | number | boolean | Date | null)[][],
     headers: string[]
   ): Record<string, string | number | Date | boolean | null>[] {
     return data.map(row => {
@@ -548,7 +624,7 @@ export class DataMerger {
    * Detect column types for the merged dataset
    */
   private static detectColumnTypes(
-    data: (string | number | Date | null)[][],
+    data: (string | number | boolean | Date | null)[][],
     headers: string[]
   ): Array<{ name: string; type: DataType; confidence: number; samples: any[]; nullCount: number; uniqueCount: number }> {
     return headers.map((header, index) => {
@@ -565,6 +641,7 @@ export class DataMerger {
       } else {
         const numberCount = columnData.filter(val => typeof val === 'number').length;
         const dateCount = columnData.filter(val => val instanceof Date).length;
+        const booleanCount = columnData.filter(val => typeof val === 'boolean').length;
         const stringCount = columnData.filter(val => typeof val === 'string').length;
         
         if (numberCount / columnData.length > 0.8) {
@@ -573,6 +650,9 @@ export class DataMerger {
         } else if (dateCount / columnData.length > 0.8) {
           type = 'date';
           confidence = dateCount / columnData.length;
+        } else if (booleanCount / columnData.length > 0.8) {
+          type = 'boolean';
+          confidence = booleanCount / columnData.length;
         } else if (stringCount / columnData.length > 0.8) {
           type = 'string';
           confidence = stringCount / columnData.length;
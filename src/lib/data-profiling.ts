@@ -0,0 +1,222 @@
+import type {
+  ParsedData,
+  ColumnType,
+  ColumnProfile,
+  DataProfile,
+  HistogramBin,
+  NumberStats,
+  TextStats,
+  DateStats,
+  ValueFrequency
+} from '@/types';
+
+// Column profiling engine
+
+// Bins per histogram; enough shape for a small sparkline-sized chart
+const HISTOGRAM_BINS = 20;
+
+// Most frequent values listed per column
+const TOP_VALUE_COUNT = 10;
+
+// A gap between consecutive dates counts when it spans this many typical steps
+const GAP_FACTOR = 3;
+
+// Largest date gaps kept per column
+const MAX_DATE_GAPS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Computes per-column statistics and distributions for parsed data
+ */
+export class DataProfiler {
+  /**
+   * Profile every column of a parsed dataset
+   */
+  static profileData(parsedData: ParsedData, sheetName?: string): DataProfile {
+    const columns = parsedData.headers.map((header, index) => {
+      const values = parsedData.rows
+        .map(row => row[index])
+        .filter((value): value is string | number | boolean | Date => value !== null && value !== undefined);
+
+      return this.profileColumn(header, parsedData.columnTypes[index], values, parsedData.rows.length);
+    });
+
+    return {
+      sheetName,
+      rowCount: parsedData.rows.length,
+      columns,
+      createdAt: Date.now(),
+    };
+  }
+
+  /**
+   * Profile a single column according to its detected type
+   */
+  private static profileColumn(
+    name: string,
+    columnType: ColumnType | undefined,
+    values: (string | number | boolean | Date)[],
+    rowCount: number
+  ): ColumnProfile {
+    const type = columnType?.type ?? 'unknown';
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    const dates = values.filter((value): value is Date => value instanceof Date).map(date => date.getTime());
+    const texts = values.filter((value): value is string => typeof value === 'string');
+
+    const profile: ColumnProfile = {
+      name,
+      type,
+      count: values.length,
+      nullCount: rowCount - values.length,
+      uniqueCount: new Set(values.map(value => this.valueKey(value))).size,
+      topValues: this.getTopValues(values),
+      histogram: [],
+    };
+
+    if (type === 'number' && numbers.length > 0) {
+      profile.numberStats = this.getNumberStats(numbers);
+      profile.histogram = this.buildHistogram(numbers);
+    } else if (type === 'date' && dates.length > 0) {
+      profile.dateStats = this.getDateStats(dates);
+      profile.histogram = this.buildHistogram(dates);
+    } else if (texts.length > 0) {
+      profile.textStats = this.getTextStats(texts);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Summary statistics for numeric values
+   */
+  private static getNumberStats(values: number[]): NumberStats {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+    const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length;
+
+    return {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      mean,
+      median: this.quantile(sorted, 0.5),
+      stdDev: Math.sqrt(variance),
+      quantiles: {
+        p5: this.quantile(sorted, 0.05),
+        p25: this.quantile(sorted, 0.25),
+        p75: this.quantile(sorted, 0.75),
+        p95: this.quantile(sorted, 0.95),
+      },
+    };
+  }
+
+  /**
+   * Length distribution for text values
+   */
+  private static getTextStats(values: string[]): TextStats {
+    const lengths = values.map(value => value.length);
+    const [minLength, maxLength] = this.getRange(lengths);
+
+    return {
+      minLength,
+      maxLength,
+      meanLength: lengths.reduce((sum, length) => sum + length, 0) / lengths.length,
+      lengthHistogram: this.buildHistogram(lengths, true),
+    };
+  }
+
+  /**
+   * Date range and unusually long gaps between consecutive dates
+   */
+  private static getDateStats(timestamps: number[]): DateStats {
+    const sorted = [...new Set(timestamps)].sort((a, b) => a - b);
+    const steps = sorted.slice(1).map((time, index) => time - sorted[index]);
+    const typicalStep = steps.length > 0 ? this.quantile([...steps].sort((a, b) => a - b), 0.5) : 0;
+
+    const gaps = steps
+      .map((step, index) => ({ from: sorted[index], to: sorted[index + 1], step }))
+      .filter(gap => typicalStep > 0 && gap.step >= typicalStep * GAP_FACTOR)
+      .sort((a, b) => b.step - a.step)
+      .slice(0, MAX_DATE_GAPS)
+      .map(gap => ({ from: gap.from, to: gap.to, days: Math.round(gap.step / DAY_MS) }));
+
+    return {
+      min: sorted[0],
+      max: sorted[sorted.length - 1],
+      typicalStepDays: typicalStep / DAY_MS,
+      gaps,
+    };
+  }
+
+  /**
+   * Most frequent values, compared by their displayed form
+   */
+  private static getTopValues(values: (string | number | boolean | Date)[]): ValueFrequency[] {
+    const counts = new Map<string, number>();
+    values.forEach(value => {
+      const key = this.valueKey(value);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+    return [...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_VALUE_COUNT)
+      .map(([value, count]) => ({ value, count }));
+  }
+
+  /**
+   * Equal-width histogram; integer data such as lengths uses whole-number bins
+   */
+  private static buildHistogram(values: number[], integerBins = false): HistogramBin[] {
+    const [min, max] = this.getRange(values);
+
+    if (min === max) {
+      return [{ start: min, end: max, count: values.length }];
+    }
+
+    // Whole-number bins cover max - min + 1 distinct values
+    const width = integerBins 
+      ? Math.ceil((max - min + 1) / HISTOGRAM_BINS) 
+      : (max - min) / HISTOGRAM_BINS;
+    const binCount = integerBins ? Math.ceil((max - min + 1) / width) : HISTOGRAM_BINS;
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, index) => ({
+      start: min + index * width,
+      end: min + (index + 1) * width,
+      count: 0,
+    }));
+
+    values.forEach(value => {
+      const index = Math.min(Math.floor((value - min) / width), binCount - 1);
+      bins[index].count++;
+    });
+
+    return bins;
+  }
+
+  /**
+   * Minimum and maximum without spreading large arrays into Math.min/max
+   */
+  private static getRange(values: number[]): [number, number] {
+    let min = Infinity;
+    let max = -Infinity;
+    values.forEach(value => {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    return [min, max];
+  }
+
+  /**
+   * Linear-interpolated quantile of sorted values
+   */
+  private static quantile(sorted: number[], q: number): number {
+    const position = (sorted.length - 1) * q;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+  }
+
+  private static valueKey(value: string | number | boolean | Date): string {
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
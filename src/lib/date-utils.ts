@@ -0,0 +1,144 @@
+/**
+ * Date pattern inference and parsing utilities
+ */
+
+import type { DateFormat } from '@/types';
+
+interface DatePattern {
+  id: string;
+  example: string;
+  regex?: RegExp; // named groups: y, M (number), MMM (name), d, H, m, s
+}
+
+// Optional time of day after a date, e.g. `31/01/2024 14:30`
+const TIME = '(?:\\s+(?<H>\\d{1,2}):(?<m>\\d{2})(?::(?<s>\\d{2}))?)?';
+
+// Order matters: when patterns tie, the earlier one wins and the column is flagged
+export const DATE_PATTERNS: DatePattern[] = [
+  { id: 'yyyy-MM-dd', example: '2024-01-31', regex: new RegExp(`^(?<y>\\d{4})-(?<M>\\d{1,2})-(?<d>\\d{1,2})${TIME}$`) },
+  { id: 'ISO 8601', example: '2024-01-31T14:30:00Z', regex: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/ },
+  { id: 'yyyy/MM/dd', example: '2024/01/31', regex: new RegExp(`^(?<y>\\d{4})/(?<M>\\d{1,2})/(?<d>\\d{1,2})${TIME}$`) },
+  { id: 'MM/dd/yyyy', example: '01/31/2024', regex: new RegExp(`^(?<M>\\d{1,2})/(?<d>\\d{1,2})/(?<y>\\d{4})${TIME}$`) },
+  { id: 'dd/MM/yyyy', example: '31/01/2024', regex: new RegExp(`^(?<d>\\d{1,2})/(?<M>\\d{1,2})/(?<y>\\d{4})${TIME}$`) },
+  { id: 'MM/dd/yy', example: '01/31/24', regex: new RegExp(`^(?<M>\\d{1,2})/(?<d>\\d{1,2})/(?<y>\\d{2})${TIME}$`) },
+  { id: 'dd/MM/yy', example: '31/01/24', regex: new RegExp(`^(?<d>\\d{1,2})/(?<M>\\d{1,2})/(?<y>\\d{2})${TIME}$`) },
+  { id: 'dd.MM.yyyy', example: '31.01.2024', regex: new RegExp(`^(?<d>\\d{1,2})\\.(?<M>\\d{1,2})\\.(?<y>\\d{4})${TIME}$`) },
+  { id: 'MM-dd-yyyy', example: '01-31-2024', regex: new RegExp(`^(?<M>\\d{1,2})-(?<d>\\d{1,2})-(?<y>\\d{4})${TIME}$`) },
+  { id: 'dd-MM-yyyy', example: '31-01-2024', regex: new RegExp(`^(?<d>\\d{1,2})-(?<M>\\d{1,2})-(?<y>\\d{4})${TIME}$`) },
+  { id: 'yyyyMMdd', example: '20240131', regex: new RegExp('^(?<y>\\d{4})(?<M>\\d{2})(?<d>\\d{2})$') },
+  { id: 'dd-MMM-yyyy', example: '31-Jan-2024', regex: new RegExp(`^(?<d>\\d{1,2})[- ](?<MMM>[A-Za-z]{3,9})[- ](?<y>\\d{4})${TIME}$`) },
+  { id: 'dd-MMM-yy', example: '31-Jan-24', regex: new RegExp(`^(?<d>\\d{1,2})-(?<MMM>[A-Za-z]{3,9})-(?<y>\\d{2})${TIME}$`) },
+  { id: 'MMM d, yyyy', example: 'Jan 31, 2024', regex: new RegExp(`^(?<MMM>[A-Za-z]{3,9})\\.? (?<d>\\d{1,2}),? (?<y>\\d{4})${TIME}$`) },
+  { id: 'Excel serial', example: '45322' },
+];
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Share of a column's values that must fit a pattern for it to count as dates
+const DATE_MATCH_THRESHOLD = 0.8;
+
+// Serial numbers between these bounds fall in 1954–2119
+const EXCEL_SERIAL_MIN = 20000;
+const EXCEL_SERIAL_MAX = 80000;
+
+// Bare numbers are only read as Excel serials under a date-like header
+const DATE_HEADER_HINT = /date|time|day|dob|birth|created|updated|modified|_at$/i;
+
+// Two-digit years below this are read as 20xx
+const TWO_DIGIT_YEAR_PIVOT = 50;
+
+const monthFromName = (name: string): number | null => {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex(month => month.startsWith(lower) && lower.length >= 3);
+  return index === -1 ? null : index + 1;
+};
+
+const fromExcelSerial = (serial: number): Date | null => {
+  if (serial < EXCEL_SERIAL_MIN || serial > EXCEL_SERIAL_MAX) return null;
+
+  // Day zero is 1899-12-30 once Excel's phantom leap day is accounted for
+  const utc = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400) * 1000);
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds()
+  );
+};
+
+/**
+ * Parse a value with a specific date pattern, rejecting impossible dates
+ */
+export function parseDateWithPattern(value: string | number, patternId: string): Date | null {
+  const pattern = DATE_PATTERNS.find(p => p.id === patternId);
+  if (!pattern) return null;
+
+  const text = String(value).trim();
+
+  if (pattern.id === 'Excel serial') {
+    return /^\d+(\.\d+)?$/.test(text) ? fromExcelSerial(Number(text)) : null;
+  }
+
+  const match = pattern.regex?.exec(text);
+  if (!match) return null;
+
+  if (pattern.id === 'ISO 8601') {
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const groups = match.groups ?? {};
+  let year = Number(groups.y);
+  if (groups.y.length === 2) {
+    year += year < TWO_DIGIT_YEAR_PIVOT ? 2000 : 1900;
+  }
+  const month = groups.MMM ? monthFromName(groups.MMM) : Number(groups.M);
+  const day = Number(groups.d);
+
+  if (!month || month < 1 || month > 12 || day < 1) return null;
+  if (day > new Date(year, month, 0).getDate()) return null;
+
+  const hours = Number(groups.H ?? 0);
+  const minutes = Number(groups.m ?? 0);
+  const seconds = Number(groups.s ?? 0);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Vote across a column's values for the date pattern that reads the most of them.
+ * Patterns that read just as many values but give different dates (such as
+ * day-first and month-first) are returned as alternatives and flag the column.
+ */
+export function inferDateFormat(values: (string | number)[], header = ''): DateFormat | null {
+  if (values.length === 0) return null;
+
+  const candidates = DATE_PATTERNS.filter(pattern =>
+    pattern.id !== 'Excel serial' || DATE_HEADER_HINT.test(header)
+  );
+
+  const results = candidates
+    .map(pattern => ({
+      pattern: pattern.id,
+      dates: values.map(value => parseDateWithPattern(value, pattern.id)),
+    }))
+    .map(result => ({ ...result, matches: result.dates.filter(date => date !== null).length }))
+    .filter(result => result.matches / values.length >= DATE_MATCH_THRESHOLD);
+
+  if (results.length === 0) return null;
+
+  const best = results.reduce((top, result) => result.matches > top.matches ? result : top);
+  const alternatives = results
+    .filter(result =>
+      result !== best &&
+      result.matches === best.matches &&
+      result.dates.some((date, index) => date?.getTime() !== best.dates[index]?.getTime())
+    )
+    .map(result => result.pattern);
+
+  return alternatives.length > 0
+    ? { pattern: best.pattern, ambiguous: true, alternatives }
+    : { pattern: best.pattern };
+}
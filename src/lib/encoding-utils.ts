@@ -0,0 +1,164 @@
+/**
+ * Character encoding detection utilities
+ */
+
+export interface EncodingOption {
+  value: string;
+  label: string;
+}
+
+export const SUPPORTED_ENCODINGS: EncodingOption[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'iso-8859-1', label: 'Latin-1 (ISO-8859-1)' },
+  { value: 'windows-1252', label: 'Western European (Windows-1252)' },
+  { value: 'windows-1250', label: 'Central European (Windows-1250)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'windows-1254', label: 'Turkish (Windows-1254)' },
+  { value: 'shift_jis', label: 'Japanese (Shift_JIS)' },
+];
+
+/**
+ * Letters each single-byte code page is expected to produce for its languages.
+ * Candidates are listed in tie-break order.
+ */
+const SINGLE_BYTE_CANDIDATES: { encoding: string; letters: RegExp }[] = [
+  { encoding: 'windows-1252', letters: /[äöüßÄÖÜàâçéèêëîïôûùÿœæñáíóúÁÉÍÓÚÑåøÅØÀÂÇÈÊËÎÏÔÛÙŒÆ]/ },
+  { encoding: 'windows-1250', letters: /[ąćęłńóśźżĄĆĘŁŃÓŚŹŻčďěňřšťůžČĎĚŇŘŠŤŮŽäöüßáéíóúýÁÉÍÓÚÝőűŐŰ]/ },
+  { encoding: 'windows-1254', letters: /[çğıöşüÇĞİÖŞÜâîûéè]/ },
+  { encoding: 'windows-1251', letters: /[Ѐ-ӿ]/ },
+];
+
+/**
+ * Detect the encoding of raw file bytes.
+ * Checks for a byte order mark, then UTF-8 / UTF-16 validity, then scores
+ * common single-byte code pages and Shift_JIS by how plausible the decoded text is.
+ */
+export function detectEncodingFromBytes(bytes: Uint8Array): string {
+  const bom = detectBOM(bytes);
+  if (bom) return bom;
+  
+  if (isValidUTF8(bytes)) return 'utf-8';
+  
+  const utf16 = detectUTF16(bytes);
+  if (utf16) return utf16;
+  
+  return detectLegacyEncoding(bytes);
+}
+
+/**
+ * Detect a UTF-8 or UTF-16 byte order mark
+ */
+export function detectBOM(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Decode bytes, returning null when the encoding rejects them
+ */
+export function tryDecode(bytes: Uint8Array, encoding: string): string | null {
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+  } catch {
+    return null;
+  }
+}
+
+function isValidUTF8(bytes: Uint8Array): boolean {
+  return tryDecode(bytes, 'utf-8') !== null;
+}
+
+// UTF-16 without a BOM shows up as ASCII interleaved with zero bytes
+function detectUTF16(bytes: Uint8Array): string | null {
+  const length = Math.min(bytes.length - (bytes.length % 2), 4096);
+  if (length < 4) return null;
+  
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Score Shift_JIS decoding, or null when there is no real Japanese evidence.
+ * Latin-1 text often decodes as valid Shift_JIS (an umlaut and the following
+ * letter form one kanji), so only full-width kana and kanji count for it, each
+ * worth its two bytes. Half-width katakana are what stray single bytes such as
+ * `ß` turn into, so they count against it.
+ */
+function scoreShiftJIS(bytes: Uint8Array): number | null {
+  const text = tryDecode(bytes, 'shift_jis');
+  if (!text) return null;
+  
+  const nonAscii = text.match(/[^\x00-\x7F]/g) || [];
+  const japanese = text.match(/[぀-ヿ一-鿿]/g) || [];
+  const halfWidth = text.match(/[｡-ﾟ]/g) || [];
+  
+  if (japanese.length < 2 || japanese.length / nonAscii.length < 0.5) return null;
+  
+  return japanese.length * 2 - halfWidth.length - (nonAscii.length - japanese.length - halfWidth.length) * 2;
+}
+
+function detectLegacyEncoding(bytes: Uint8Array): string {
+  let bestEncoding = 'windows-1252';
+  let bestScore = -Infinity;
+  
+  for (const candidate of SINGLE_BYTE_CANDIDATES) {
+    const text = new TextDecoder(candidate.encoding).decode(bytes);
+    const score = scoreDecodedText(text, candidate.letters);
+    
+    if (score > bestScore) {
+      bestScore = score;
+      bestEncoding = candidate.encoding;
+    }
+  }
+  
+  // Shift_JIS has to beat the single-byte code pages outright
+  const shiftJisScore = scoreShiftJIS(bytes);
+  if (shiftJisScore !== null && shiftJisScore > bestScore) return 'shift_jis';
+  
+  // Browsers decode Latin-1 as Windows-1252; only the C1 range tells them apart
+  if (bestEncoding === 'windows-1252' && !bytes.some(byte => byte >= 0x80 && byte <= 0x9F)) {
+    return 'iso-8859-1';
+  }
+  
+  return bestEncoding;
+}
+
+/**
+ * Score how plausible the non-ASCII characters of decoded text are.
+ * Expected letters score, anything else (symbols, controls, letters from
+ * another script embedded in a Latin word) counts against the candidate.
+ */
+function scoreDecodedText(text: string, letters: RegExp): number {
+  let score = 0;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char.charCodeAt(0) < 0x80) continue;
+    
+    if (!letters.test(char)) {
+      score -= 2;
+      continue;
+    }
+    
+    // A Cyrillic letter wedged between Latin letters is almost certainly mis-decoded
+    const isCyrillic = /[Ѐ-ӿ]/.test(char);
+    const neighbours = (text[i - 1] || '') + (text[i + 1] || '');
+    score += isCyrillic && /[A-Za-z]/.test(neighbours) ? -1 : 1;
+  }
+  
+  return score;
+}
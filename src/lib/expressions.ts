@@ -0,0 +1,772 @@
+import { addDays, addMonths, differenceInCalendarDays, format, isValid, parseISO } from 'date-fns';
+
+/**
+ * A small, sandboxed formula language for derived columns. Expressions are
+ * tokenised, parsed into a tree and evaluated against one row; nothing is
+ * ever handed to `eval` or `Function`.
+ *
+ *   IF(qty > 0, price * qty, 0)
+ *   [First Name] & " " & [Last Name]
+ *   ADD_DAYS(order_date, 30) ?? TODAY()
+ */
+
+type Cell = string | number | boolean | Date | null;
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: Cell }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'unary'; operator: '-' | 'NOT'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+type BinaryOperator =
+  | '+' | '-' | '*' | '/' | '%' | '&' | '??'
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'AND' | 'OR';
+
+export interface CompiledExpression {
+  source: string;
+  root: ExpressionNode;
+  columns: string[]; // referenced columns, in order of first use
+  evaluate: (row: Record<string, Cell>) => Cell;
+}
+
+export interface ExpressionFunction {
+  signature: string;
+  description: string;
+  minArgs: number;
+  maxArgs: number; // Infinity for variadic functions
+  evaluate: (args: Cell[]) => Cell;
+}
+
+/**
+ * Problem with an expression. `position` is the character offset it was
+ * found at, when it points at a specific spot.
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'column' | 'operator' | '(' | ')' | ',' | 'end';
+  value: string;
+  position: number;
+}
+
+// Longest operators first so `<=` is not read as `<` followed by `=`
+const OPERATORS = ['??', '==', '!=', '<>', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '&', '=', '<', '>', '!'];
+
+const OPERATOR_ALIASES: Record<string, string> = {
+  '==': '=',
+  '<>': '!=',
+  '&&': 'AND',
+  '||': 'OR',
+  '!': 'NOT',
+};
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'TRUE', 'FALSE', 'NULL']);
+
+// Binding strength of binary operators; higher binds tighter
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  '??': 1,
+  OR: 2,
+  AND: 3,
+  '=': 5, '!=': 5, '<': 5, '<=': 5, '>': 5, '>=': 5,
+  '&': 6,
+  '+': 7, '-': 7,
+  '*': 8, '/': 8, '%': 8,
+};
+const NOT_PRECEDENCE = 4;
+
+function isMissing(value: Cell): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+function toNumber(value: Cell): number | null {
+  if (isMissing(value)) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) throw new ExpressionError('Expected a number but got a date');
+
+  const number = Number(String(value).trim());
+  if (isNaN(number)) throw new ExpressionError(`"${value}" is not a number`);
+  return number;
+}
+
+function toText(value: Cell): string | null {
+  if (isMissing(value)) return null;
+  return value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value);
+}
+
+function toDate(value: Cell): Date | null {
+  if (isMissing(value)) return null;
+  if (value instanceof Date) return value;
+  if (typeof value === 'string') {
+    const date = parseISO(value.trim());
+    if (isValid(date)) return date;
+  }
+  throw new ExpressionError(`"${value}" is not a date`);
+}
+
+function isTruthy(value: Cell): boolean {
+  return !isMissing(value) && value !== false && value !== 0;
+}
+
+function compare(left: Cell, right: Cell): number {
+  if (left instanceof Date || right instanceof Date) {
+    return toDate(left)!.getTime() - toDate(right)!.getTime();
+  }
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left)! - toNumber(right)!;
+  }
+  const a = String(left);
+  const b = String(right);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Values that cannot be compared, e.g. text and a number, are simply unequal
+function isEqual(left: Cell, right: Cell): boolean {
+  try {
+    return compare(left, right) === 0;
+  } catch (error) {
+    if (error instanceof ExpressionError) return false;
+    throw error;
+  }
+}
+
+// Text functions return null for a missing input rather than inventing a value
+const textFunction = (fn: (text: string, args: Cell[]) => Cell) => (args: Cell[]): Cell => {
+  const text = toText(args[0]);
+  return text === null ? null : fn(text, args);
+};
+
+const numberFunction = (fn: (value: number, args: Cell[]) => Cell) => (args: Cell[]): Cell => {
+  const value = toNumber(args[0]);
+  return value === null ? null : fn(value, args);
+};
+
+const dateFunction = (fn: (date: Date, args: Cell[]) => Cell) => (args: Cell[]): Cell => {
+  const date = toDate(args[0]);
+  return date === null ? null : fn(date, args);
+};
+
+/**
+ * Functions expressions may call. IF and COALESCE are listed here for
+ * validation and autocomplete, but evaluate their arguments lazily.
+ */
+export const EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  IF: {
+    signature: 'IF(condition, then, else)',
+    description: 'then when the condition holds, otherwise else (or null)',
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: args => isTruthy(args[0]) ? args[1] : args[2] ?? null,
+  },
+  COALESCE: {
+    signature: 'COALESCE(value, ...)',
+    description: 'First value that is not empty',
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.find(arg => !isMissing(arg)) ?? null,
+  },
+  ISNULL: {
+    signature: 'ISNULL(value)',
+    description: 'Whether the value is empty',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: args => isMissing(args[0]),
+  },
+  UPPER: {
+    signature: 'UPPER(text)',
+    description: 'Text in upper case',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.toUpperCase()),
+  },
+  LOWER: {
+    signature: 'LOWER(text)',
+    description: 'Text in lower case',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.toLowerCase()),
+  },
+  TRIM: {
+    signature: 'TRIM(text)',
+    description: 'Text without leading and trailing spaces',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: textFunction(text => text.trim()),
+  },
+  LEN: {
+    signature: 'LEN(text)',
+    description: 'Number of characters',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: args => toText(args[0])?.length ?? 0,
+  },
+  LEFT: {
+    signature: 'LEFT(text, count)',
+    description: 'First count characters',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: textFunction((text, args) => text.slice(0, Math.max(0, toNumber(args[1]) ?? 0))),
+  },
+  RIGHT: {
+    signature: 'RIGHT(text, count)',
+    description: 'Last count characters',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: textFunction((text, args) => {
+      const count = Math.max(0, toNumber(args[1]) ?? 0);
+      return count === 0 ? '' : text.slice(-count);
+    }),
+  },
+  MID: {
+    signature: 'MID(text, start, count)',
+    description: 'count characters from position start (1-based)',
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: textFunction((text, args) => {
+      const start = Math.max(1, toNumber(args[1]) ?? 1) - 1;
+      return text.slice(start, start + Math.max(0, toNumber(args[2]) ?? 0));
+    }),
+  },
+  REPLACE: {
+    signature: 'REPLACE(text, find, replacement)',
+    description: 'Text with every occurrence of find replaced',
+    minArgs: 3,
+    maxArgs: 3,
+    evaluate: textFunction((text, args) => {
+      const find = toText(args[1]);
+      return find ? text.split(find).join(toText(args[2]) ?? '') : text;
+    }),
+  },
+  CONTAINS: {
+    signature: 'CONTAINS(text, part)',
+    description: 'Whether the text contains part, ignoring case',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => (toText(args[0]) ?? '').toLowerCase().includes((toText(args[1]) ?? '').toLowerCase()),
+  },
+  CONCAT: {
+    signature: 'CONCAT(value, ...)',
+    description: 'Values joined together; empty values are skipped',
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => args.map(arg => toText(arg) ?? '').join(''),
+  },
+  TEXT: {
+    signature: 'TEXT(value)',
+    description: 'Value as text; dates become yyyy-MM-dd',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: args => toText(args[0]),
+  },
+  NUMBER: {
+    signature: 'NUMBER(value)',
+    description: 'Value as a number',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: args => toNumber(args[0]),
+  },
+  ROUND: {
+    signature: 'ROUND(number, digits)',
+    description: 'Number rounded to digits decimals (default 0)',
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: numberFunction((value, args) => {
+      const factor = 10 ** (toNumber(args[1] ?? 0) ?? 0);
+      return Math.round(value * factor) / factor;
+    }),
+  },
+  ABS: {
+    signature: 'ABS(number)',
+    description: 'Absolute value',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: numberFunction(Math.abs),
+  },
+  FLOOR: {
+    signature: 'FLOOR(number)',
+    description: 'Number rounded down',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: numberFunction(Math.floor),
+  },
+  CEIL: {
+    signature: 'CEIL(number)',
+    description: 'Number rounded up',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: numberFunction(Math.ceil),
+  },
+  MIN: {
+    signature: 'MIN(number, ...)',
+    description: 'Smallest number; empty values are skipped',
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => {
+      const numbers = args.map(toNumber).filter((n): n is number => n !== null);
+      return numbers.length > 0 ? Math.min(...numbers) : null;
+    },
+  },
+  MAX: {
+    signature: 'MAX(number, ...)',
+    description: 'Largest number; empty values are skipped',
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: args => {
+      const numbers = args.map(toNumber).filter((n): n is number => n !== null);
+      return numbers.length > 0 ? Math.max(...numbers) : null;
+    },
+  },
+  TODAY: {
+    signature: 'TODAY()',
+    description: 'Current date',
+    minArgs: 0,
+    maxArgs: 0,
+    evaluate: () => {
+      const now = new Date();
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    },
+  },
+  DATE: {
+    signature: 'DATE(year, month, day) or DATE(text)',
+    description: 'Date from its parts, or from ISO text',
+    minArgs: 1,
+    maxArgs: 3,
+    evaluate: args => {
+      if (args.length === 1) return toDate(args[0]);
+      if (args.length !== 3) throw new ExpressionError('DATE takes one or three arguments');
+      const [year, month, day] = args.map(toNumber);
+      if (year === null || month === null || day === null) return null;
+      return new Date(year, month - 1, day);
+    },
+  },
+  YEAR: {
+    signature: 'YEAR(date)',
+    description: 'Year of a date',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getFullYear()),
+  },
+  MONTH: {
+    signature: 'MONTH(date)',
+    description: 'Month of a date (1-12)',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getMonth() + 1),
+  },
+  DAY: {
+    signature: 'DAY(date)',
+    description: 'Day of the month of a date',
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: dateFunction(date => date.getDate()),
+  },
+  ADD_DAYS: {
+    signature: 'ADD_DAYS(date, days)',
+    description: 'Date moved by a number of days',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: dateFunction((date, args) => addDays(date, toNumber(args[1]) ?? 0)),
+  },
+  ADD_MONTHS: {
+    signature: 'ADD_MONTHS(date, months)',
+    description: 'Date moved by a number of months',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: dateFunction((date, args) => addMonths(date, toNumber(args[1]) ?? 0)),
+  },
+  DAYS_BETWEEN: {
+    signature: 'DAYS_BETWEEN(start, end)',
+    description: 'Calendar days from start to end',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: args => {
+      const start = toDate(args[0]);
+      const end = toDate(args[1]);
+      return start && end ? differenceInCalendarDays(end, start) : null;
+    },
+  },
+  FORMAT_DATE: {
+    signature: 'FORMAT_DATE(date, pattern)',
+    description: 'Date as text, e.g. FORMAT_DATE(d, "dd/MM/yyyy")',
+    minArgs: 2,
+    maxArgs: 2,
+    evaluate: dateFunction((date, args) => format(date, toText(args[1]) ?? 'yyyy-MM-dd')),
+  },
+};
+
+/**
+ * Parses, validates and evaluates expressions
+ */
+export class Expressions {
+  /**
+   * Expression tree for a formula. Throws an `ExpressionError` with the
+   * position of the first syntax error.
+   */
+  static parse(source: string): ExpressionNode {
+    return new Parser(this.tokenize(source)).parseExpression();
+  }
+
+  /**
+   * Parse a formula and check its column references. When `availableColumns`
+   * is given, references to any other column are errors.
+   */
+  static compile(source: string, availableColumns?: string[]): CompiledExpression {
+    if (!source.trim()) throw new ExpressionError('Expression is empty', 0);
+
+    const root = this.parse(source);
+    const references = this.getColumnReferences(root);
+
+    if (availableColumns) {
+      const known = new Set(availableColumns);
+      const unknown = references.find(reference => !known.has(reference.name));
+      if (unknown) throw new ExpressionError(`Unknown column "${unknown.name}"`, unknown.position);
+    }
+
+    return {
+      source,
+      root,
+      columns: [...new Set(references.map(reference => reference.name))],
+      evaluate: row => this.evaluate(root, row),
+    };
+  }
+
+  /**
+   * Value of an expression tree for one row. Throws an `ExpressionError` when
+   * a value has the wrong type, e.g. text where a number is needed.
+   */
+  static evaluate(node: ExpressionNode, row: Record<string, Cell>): Cell {
+    switch (node.kind) {
+      case 'literal':
+        return node.value;
+
+      case 'column':
+        // Only the row's own columns; names like `constructor` must not reach the prototype
+        return Object.hasOwn(row, node.name) ? row[node.name] ?? null : null;
+
+      case 'unary': {
+        const operand = this.evaluate(node.operand, row);
+        if (node.operator === 'NOT') return !isTruthy(operand);
+        const number = toNumber(operand);
+        return number === null ? null : -number;
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, row);
+
+      case 'call': {
+        // Lazy so the branch or fallback that is not taken cannot fail the row
+        if (node.name === 'IF') {
+          return isTruthy(this.evaluate(node.args[0], row))
+            ? this.evaluate(node.args[1], row)
+            : node.args[2] ? this.evaluate(node.args[2], row) : null;
+        }
+        if (node.name === 'COALESCE') {
+          for (const arg of node.args) {
+            const value = this.evaluate(arg, row);
+            if (!isMissing(value)) return value;
+          }
+          return null;
+        }
+        return EXPRESSION_FUNCTIONS[node.name].evaluate(node.args.map(arg => this.evaluate(arg, row)));
+      }
+    }
+  }
+
+  /**
+   * How a column is written in an expression: bare when it is a plain
+   * identifier, otherwise in brackets
+   */
+  static formatColumnReference(column: string): string {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(column) && !KEYWORDS.has(column.toUpperCase())
+      ? column
+      : `[${column}]`;
+  }
+
+  private static evaluateBinary(
+    operator: BinaryOperator,
+    leftNode: ExpressionNode,
+    rightNode: ExpressionNode,
+    row: Record<string, Cell>
+  ): Cell {
+    const left = this.evaluate(leftNode, row);
+
+    // Short-circuit operators only evaluate the right side when needed
+    if (operator === 'AND') return isTruthy(left) && isTruthy(this.evaluate(rightNode, row));
+    if (operator === 'OR') return isTruthy(left) || isTruthy(this.evaluate(rightNode, row));
+    if (operator === '??') return isMissing(left) ? this.evaluate(rightNode, row) : left;
+
+    const right = this.evaluate(rightNode, row);
+
+    switch (operator) {
+      case '&':
+        return (toText(left) ?? '') + (toText(right) ?? '');
+
+      case '=':
+        if (isMissing(left) || isMissing(right)) return isMissing(left) && isMissing(right);
+        return isEqual(left, right);
+
+      case '!=':
+        if (isMissing(left) || isMissing(right)) return isMissing(left) !== isMissing(right);
+        return !isEqual(left, right);
+
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        if (isMissing(left) || isMissing(right)) return null;
+        const order = compare(left, right);
+        return operator === '<' ? order < 0
+          : operator === '<=' ? order <= 0
+          : operator === '>' ? order > 0
+          : order >= 0;
+      }
+    }
+
+    if (isMissing(left) || isMissing(right)) return null;
+
+    // Date arithmetic works in days: date ± days, date - date
+    if (left instanceof Date || right instanceof Date) {
+      if (operator === '+' && left instanceof Date) return addDays(left, toNumber(right)!);
+      if (operator === '+' && right instanceof Date) return addDays(right, toNumber(left)!);
+      if (operator === '-' && left instanceof Date) {
+        return right instanceof Date ? differenceInCalendarDays(left, right) : addDays(left, -toNumber(right)!);
+      }
+      throw new ExpressionError(`Cannot use "${operator}" with a date`);
+    }
+
+    const a = toNumber(left)!;
+    const b = toNumber(right)!;
+    switch (operator) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return b === 0 ? null : a / b;
+      case '%': return b === 0 ? null : a % b;
+    }
+    return null;
+  }
+
+  private static getColumnReferences(node: ExpressionNode): { name: string; position: number }[] {
+    switch (node.kind) {
+      case 'column':
+        return [{ name: node.name, position: node.position }];
+      case 'unary':
+        return this.getColumnReferences(node.operand);
+      case 'binary':
+        return [...this.getColumnReferences(node.left), ...this.getColumnReferences(node.right)];
+      case 'call':
+        return node.args.flatMap(arg => this.getColumnReferences(arg));
+      default:
+        return [];
+    }
+  }
+
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      if (/[0-9.]/.test(char)) {
+        const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+        if (!match) throw new ExpressionError(`Unexpected "${char}"`, i);
+        tokens.push({ type: 'number', value: match[0], position: i });
+        i += match[0].length;
+        continue;
+      }
+
+      // Quotes inside a string are written twice: 'it''s'
+      if (char === '"' || char === "'") {
+        let value = '';
+        let j = i + 1;
+        for (;;) {
+          if (j >= source.length) throw new ExpressionError('Text is missing its closing quote', i);
+          if (source[j] === char) {
+            if (source[j + 1] !== char) break;
+            j++;
+          }
+          value += source[j++];
+        }
+        tokens.push({ type: 'string', value, position: i });
+        i = j + 1;
+        continue;
+      }
+
+      if (char === '[') {
+        const end = source.indexOf(']', i);
+        if (end === -1) throw new ExpressionError('Column name is missing its closing "]"', i);
+        const name = source.slice(i + 1, end).trim();
+        if (!name) throw new ExpressionError('Column name is empty', i);
+        tokens.push({ type: 'column', value: name, position: i });
+        i = end + 1;
+        continue;
+      }
+
+      if (/[A-Za-z_]/.test(char)) {
+        const [word] = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))!;
+        tokens.push({ type: 'identifier', value: word, position: i });
+        i += word.length;
+        continue;
+      }
+
+      if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ type: char as '(' | ')' | ',', value: char, position: i });
+        i++;
+        continue;
+      }
+
+      const operator = OPERATORS.find(op => source.startsWith(op, i));
+      if (!operator) throw new ExpressionError(`Unexpected "${char}"`, i);
+      tokens.push({ type: 'operator', value: OPERATOR_ALIASES[operator] ?? operator, position: i });
+      i += operator.length;
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+  }
+}
+
+/**
+ * Recursive descent parser with precedence climbing for binary operators
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parseExpression(): ExpressionNode {
+    const node = this.parseBinary(0);
+    const next = this.peek();
+    if (next.type !== 'end') throw new ExpressionError(`Unexpected "${next.value}"`, next.position);
+    return node;
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    for (;;) {
+      const operator = this.binaryOperator(this.peek());
+      if (!operator || PRECEDENCE[operator] <= minPrecedence) return left;
+      this.index++;
+      // All binary operators are left-associative
+      const right = this.parseBinary(PRECEDENCE[operator]);
+      left = { kind: 'binary', operator, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+
+    if (this.isWord(token, 'NOT') || (token.type === 'operator' && token.value === 'NOT')) {
+      this.index++;
+      return { kind: 'unary', operator: 'NOT', operand: this.parseBinary(NOT_PRECEDENCE) };
+    }
+    if (token.type === 'operator' && token.value === '-') {
+      this.index++;
+      return { kind: 'unary', operator: '-', operand: this.parseUnary() };
+    }
+    if (token.type === 'operator' && token.value === '+') {
+      this.index++;
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { kind: 'literal', value: token.value };
+
+      case 'column':
+        return { kind: 'column', name: token.value, position: token.position };
+
+      case '(': {
+        const node = this.parseBinary(0);
+        this.expect(')', 'Missing ")"');
+        return node;
+      }
+
+      case 'identifier': {
+        const word = token.value.toUpperCase();
+        if (word === 'TRUE' || word === 'FALSE') return { kind: 'literal', value: word === 'TRUE' };
+        if (word === 'NULL') return { kind: 'literal', value: null };
+        if (this.peek().type === '(') return this.parseCall(token);
+        if (KEYWORDS.has(word)) throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+        return { kind: 'column', name: token.value, position: token.position };
+      }
+
+      case 'end':
+        throw new ExpressionError('Expression ends unexpectedly', token.position);
+
+      default:
+        throw new ExpressionError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+
+  private parseCall(nameToken: Token): ExpressionNode {
+    const name = nameToken.value.toUpperCase();
+    const fn = EXPRESSION_FUNCTIONS[name];
+    if (!fn) throw new ExpressionError(`Unknown function "${nameToken.value}"`, nameToken.position);
+
+    this.index++; // (
+    const args: ExpressionNode[] = [];
+    if (this.peek().type !== ')') {
+      for (;;) {
+        args.push(this.parseBinary(0));
+        if (this.peek().type !== ',') break;
+        this.index++;
+      }
+    }
+    this.expect(')', `Missing ")" after the arguments of ${name}`);
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new ExpressionError(`${name} expects ${this.describeArity(fn)}, got ${args.length}`, nameToken.position);
+    }
+    return { kind: 'call', name, args, position: nameToken.position };
+  }
+
+  private describeArity(fn: ExpressionFunction): string {
+    if (fn.maxArgs === Infinity) return `at least ${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+    if (fn.minArgs === fn.maxArgs) return `${fn.minArgs} argument${fn.minArgs === 1 ? '' : 's'}`;
+    return `${fn.minArgs} to ${fn.maxArgs} arguments`;
+  }
+
+  private binaryOperator(token: Token): BinaryOperator | null {
+    if (token.type === 'operator' && token.value in PRECEDENCE) return token.value as BinaryOperator;
+    if (this.isWord(token, 'AND')) return 'AND';
+    if (this.isWord(token, 'OR')) return 'OR';
+    return null;
+  }
+
+  private isWord(token: Token, word: string): boolean {
+    return token.type === 'identifier' && token.value.toUpperCase() === word;
+  }
+
+  private expect(type: Token['type'], message: string): void {
+    const token = this.peek();
+    if (token.type !== type) throw new ExpressionError(message, token.position);
+    this.index++;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+}
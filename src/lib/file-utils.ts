@@ -1,12 +1,44 @@
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
+import { parquetMetadata, parquetReadObjects, parquetSchema } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { tableFromIPC } from 'apache-arrow';
+import { 
+  collectHeaders, 
+  extractRecords, 
+  flattenRecord, 
+  isLineDelimitedJSON 
+} from './json-utils';
+import { 
+  decodeArrowValue, 
+  mapArrowType, 
+  mapParquetType, 
+  normalizeColumnarValue, 
+  type DeclaredColumn 
+} from './columnar-utils';
+import { 
+  inferColumnBoundaries, 
+  isTabDelimited, 
+  splitFixedWidthLine 
+} from './fixed-width-utils';
+import { detectEncodingFromBytes } from './encoding-utils';
+import { combineHeaderRows, detectHeaderRowCount, MAX_HEADER_ROWS } from './header-utils';
+import { detectNumberFormat, parseLocaleNumber } from './number-utils';
+import { inferDateFormat, parseDateWithPattern } from './date-utils';
+import { detectBooleanVocabulary, detectSemanticType, isDigitCodeColumn, parseBoolean } from './semantic-utils';
+import { DataFixer } from './data-fixing';
 import type { 
   UploadedFile, 
   ProcessedFile, 
   ParsedData, 
   FileParseOptions,
+  ParseProgress,
+  SheetData,
   DataType,
-  ColumnType 
+  ColumnType,
+  DataFix,
+  DateFormat,
+  NumberFormat 
 } from '@/types';
 
 // File validation
@@ -17,14 +49,20 @@ export const validateFile = (file: File): { isValid: boolean; errors: string[] }
     'text/csv',
     'application/vnd.ms-excel',
     'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/json',
+    'application/x-ndjson',
+    'application/vnd.apache.parquet',
+    'application/vnd.apache.arrow.file',
+    'application/vnd.apache.arrow.stream',
+    'text/plain',
   ];
 
   if (file.size > maxSize) {
     errors.push(`File size (${formatFileSize(file.size)}) exceeds maximum allowed size (10MB)`);
   }
 
-  if (!supportedTypes.includes(file.type) && !file.name.match(/\.(csv|xlsx|xls)$/i)) {
-    errors.push('Unsupported file format. Only CSV and Excel files are allowed.');
+  if (!supportedTypes.includes(file.type) && !file.name.match(/\.(csv|xlsx|xls|json|ndjson|jsonl|parquet|arrow|feather|ipc|txt|dat|prn)$/i)) {
+    errors.push('Unsupported file format. Only CSV, Excel, JSON, Parquet, Arrow and text files are allowed.');
   }
 
   return {
@@ -60,46 +98,49 @@ export const generateId = (): string => {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 };
 
+// Bytes handed to the parser per step; small enough for smooth progress updates
+const PARSE_CHUNK_SIZE = 256 * 1024;
+
+// Worksheet rows converted per batch when reading Excel sheets
+const SHEET_ROW_BATCH = 5000;
+
 // Parse CSV file
 export const parseCSVFile = async (
   file: File, 
-  options: FileParseOptions = {}
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
 ): Promise<ParsedData> => {
   return new Promise((resolve, reject) => {
-    Papa.parse(file, {
+    const rawData: string[][] = [];
+    let bytesProcessed = 0;
+
+    Papa.parse<string[]>(file, {
       header: false,
       skipEmptyLines: true,
       delimiter: options.delimiter || '',
       encoding: options.encoding || 'utf-8',
-      complete: (results) => {
+      chunkSize: PARSE_CHUNK_SIZE,
+      // Stop reading early when only the first rows are wanted (skipped rows + header rows + data);
+      // the header row count may still be detected, so leave room for the most it can be
+      preview: options.maxRows
+        ? (options.skipRows || 0) + options.maxRows + (options.headerRows ?? MAX_HEADER_ROWS)
+        : 0,
+      chunk: (results) => {
+        for (const row of results.data) {
+          rawData.push(row);
+        }
+        
+        // Papa reads the file in slices of chunkSize bytes
+        bytesProcessed = Math.min(bytesProcessed + PARSE_CHUNK_SIZE, file.size);
+        onProgress?.({
+          bytesProcessed,
+          totalBytes: file.size,
+          rowsProcessed: rawData.length,
+        });
+      },
+      complete: () => {
         try {
-          const rawData = results.data as string[][];
-          
-          // Handle header detection
-          const hasHeader = options.hasHeader ?? detectHeader(rawData);
-          const headers = hasHeader ? rawData[0] : generateHeaders(rawData[0]?.length || 0);
-          const rows = hasHeader ? rawData.slice(1) : rawData;
-          
-          // Skip rows if specified
-          const processedRows = options.skipRows ? rows.slice(options.skipRows) : rows;
-          
-          // Limit rows if specified
-          const finalRows = options.maxRows 
-            ? processedRows.slice(0, options.maxRows) 
-            : processedRows;
-
-          // Convert string data to appropriate types
-          const typedRows = convertDataTypes(finalRows);
-          
-          // Detect column types
-          const columnTypes = detectColumnTypes(headers, typedRows);
-
-          resolve({
-            headers,
-            rows: typedRows,
-            rowCount: finalRows.length,
-            columnTypes,
-          });
+          resolve(buildParsedData(rawData, options));
         } catch (error) {
           reject(error);
         }
@@ -109,84 +150,353 @@ export const parseCSVFile = async (
   });
 };
 
+// Parse every sheet of an Excel workbook
+export const parseExcelWorkbook = async (
+  file: File, 
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<SheetData[]> => {
+  const data = await readFileBuffer(file, (bytesProcessed) => {
+    onProgress?.({ bytesProcessed, totalBytes: file.size, rowsProcessed: 0, totalRows: 0 });
+  });
+  const workbook = XLSX.read(data, { type: 'array' });
+  
+  const totalRows = workbook.SheetNames.reduce(
+    (sum, name) => sum + countSheetRows(workbook.Sheets[name]), 
+    0
+  );
+  let rowsBefore = 0;
+  
+  return workbook.SheetNames.map(name => {
+    const worksheet = workbook.Sheets[name];
+    const jsonData = readSheetRows(worksheet, (rowsProcessed) => {
+      onProgress?.({ 
+        bytesProcessed: file.size, 
+        totalBytes: file.size, 
+        rowsProcessed: rowsBefore + rowsProcessed, 
+        totalRows 
+      });
+    });
+    rowsBefore += countSheetRows(worksheet);
+    
+    return { name, parsedData: buildParsedData(jsonData, options) };
+  });
+};
+
 // Parse Excel file
 export const parseExcelFile = async (
   file: File, 
-  options: FileParseOptions = {}
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
 ): Promise<ParsedData> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+  const sheets = await parseExcelWorkbook(file, options, onProgress);
+  return pickSheet(sheets, options.sheetName).parsedData;
+};
+
+// Pick the requested sheet, or the first one that holds data
+export const pickSheet = (sheets: SheetData[], sheetName?: string): SheetData => {
+  const sheet = sheets.find(s => s.name === sheetName)
+    ?? sheets.find(s => s.parsedData.rowCount > 0)
+    ?? sheets[0];
+  
+  if (!sheet) {
+    throw new Error('Workbook contains no sheets');
+  }
+  
+  return sheet;
+};
+
+// Parse JSON, NDJSON or an object wrapping an array of records
+export const parseJSONFile = async (
+  file: File, 
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedData> => {
+  const data = await readFileBuffer(file, (bytesProcessed) => {
+    onProgress?.({ bytesProcessed, totalBytes: file.size, rowsProcessed: 0 });
+  });
+  const text = new TextDecoder(options.encoding || 'utf-8').decode(data);
+  
+  const records = extractRecords(text, isLineDelimitedJSON(file.name), options.recordPath);
+  const flatRows = records.flatMap(record => flattenRecord(record, options.arrayPolicy ?? 'stringify'));
+  const headers = collectHeaders(flatRows);
+  const rows = flatRows.map(row => headers.map(header => row[header] ?? null));
+  
+  onProgress?.({ bytesProcessed: file.size, totalBytes: file.size, rowsProcessed: rows.length });
+  
+  // Keys always form the header row
+  return buildParsedData([headers, ...rows], { ...options, hasHeader: true, headerRows: 1 });
+};
+
+// Parse an Apache Parquet file using its declared schema
+export const parseParquetFile = async (
+  file: File, 
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedData> => {
+  const data = await readFileBuffer(file, (bytesProcessed) => {
+    onProgress?.({ bytesProcessed, totalBytes: file.size, rowsProcessed: 0, totalRows: 0 });
+  });
+  const buffer = data.buffer as ArrayBuffer;
+  const metadata = parquetMetadata(buffer);
+  
+  const columns: DeclaredColumn[] = parquetSchema(metadata).children.map(node => ({
+    name: node.element.name,
+    type: mapParquetType(node),
+  }));
+  const totalRows = Number(metadata.num_rows);
+  const rows: (string | number | boolean | Date | null)[][] = [];
+  
+  // Decode one row group at a time so progress tracks real rows
+  let rowStart = 0;
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows);
+    const records = await parquetReadObjects({ file: buffer, metadata, rowStart, rowEnd, compressors });
     
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        
-        // Get first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to JSON
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { 
-          header: 1,
-          defval: null,
-          raw: false 
-        }) as (string | number | null)[][];
-
-        // Handle header detection
-        const hasHeader = options.hasHeader ?? detectHeader(jsonData);
-        const headers = hasHeader 
-          ? jsonData[0].map(String) 
-          : generateHeaders(jsonData[0]?.length || 0);
-        const rows = hasHeader ? jsonData.slice(1) : jsonData;
-        
-        // Skip rows if specified
-        const processedRows = options.skipRows ? rows.slice(options.skipRows) : rows;
-        
-        // Limit rows if specified
-        const finalRows = options.maxRows 
-          ? processedRows.slice(0, options.maxRows) 
-          : processedRows;
+    for (const record of records) {
+      rows.push(columns.map(column => normalizeColumnarValue(record[column.name], column.type)));
+    }
+    
+    rowStart = rowEnd;
+    onProgress?.({ bytesProcessed: file.size, totalBytes: file.size, rowsProcessed: rows.length, totalRows });
+  }
+  
+  return buildDeclaredParsedData(columns, rows, options);
+};
 
-        // Convert data types
-        const typedRows = convertDataTypes(finalRows);
-        
-        // Detect column types
-        const columnTypes = detectColumnTypes(headers, typedRows);
-
-        resolve({
-          headers,
-          rows: typedRows,
-          rowCount: finalRows.length,
-          columnTypes,
-        });
-      } catch (error) {
-        reject(error);
-      }
-    };
+// Parse an Apache Arrow IPC (file or stream) / Feather v2 file
+export const parseArrowFile = async (
+  file: File, 
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedData> => {
+  const data = await readFileBuffer(file, (bytesProcessed) => {
+    onProgress?.({ bytesProcessed, totalBytes: file.size, rowsProcessed: 0, totalRows: 0 });
+  });
+  const table = tableFromIPC(data);
+  
+  const columns: DeclaredColumn[] = table.schema.fields.map(field => ({
+    name: field.name,
+    type: mapArrowType(field),
+  }));
+  const vectors = columns.map((_, index) => table.getChildAt(index));
+  const rows: (string | number | boolean | Date | null)[][] = [];
+  
+  for (let rowIndex = 0; rowIndex < table.numRows; rowIndex++) {
+    rows.push(columns.map((column, index) => 
+      normalizeColumnarValue(decodeArrowValue(vectors[index]?.get(rowIndex), table.schema.fields[index]), column.type)
+    ));
     
-    reader.onerror = () => reject(new Error('Failed to read Excel file'));
-    reader.readAsArrayBuffer(file);
+    if ((rowIndex + 1) % SHEET_ROW_BATCH === 0 || rowIndex === table.numRows - 1) {
+      onProgress?.({ 
+        bytesProcessed: file.size, 
+        totalBytes: file.size, 
+        rowsProcessed: rowIndex + 1, 
+        totalRows: table.numRows 
+      });
+    }
+  }
+  
+  return buildDeclaredParsedData(columns, rows, options);
+};
+
+// Lines sampled when inferring fixed-width column boundaries
+const FIXED_WIDTH_SAMPLE_LINES = 200;
+
+// Parse a fixed-width text file, inferring column boundaries if none are given
+export const parseFixedWidthFile = async (
+  file: File, 
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<{ parsedData: ParsedData; columnBoundaries: number[] }> => {
+  const data = await readFileBuffer(file, (bytesProcessed) => {
+    onProgress?.({ bytesProcessed, totalBytes: file.size, rowsProcessed: 0 });
   });
+  const lines = new TextDecoder(options.encoding || 'utf-8')
+    .decode(data)
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '');
+  
+  const columnBoundaries = options.columnBoundaries 
+    ?? inferColumnBoundaries(lines.slice(options.skipRows || 0, (options.skipRows || 0) + FIXED_WIDTH_SAMPLE_LINES));
+  const rawData = lines.map(line => splitFixedWidthLine(line, columnBoundaries));
+  
+  onProgress?.({ bytesProcessed: file.size, totalBytes: file.size, rowsProcessed: rawData.length });
+  
+  return { parsedData: buildParsedData(rawData, options), columnBoundaries };
+};
+
+// Read the first lines of a text file
+export const readTextSample = async (
+  file: File, 
+  encoding: string = 'utf-8', 
+  maxBytes: number = 64 * 1024
+): Promise<string[]> => {
+  const buffer = await file.slice(0, maxBytes).arrayBuffer();
+  const lines = new TextDecoder(encoding).decode(buffer).split(/\r?\n/);
+  
+  // The last line may be cut off mid-way
+  return file.size > maxBytes ? lines.slice(0, -1) : lines;
+};
+
+// Read a file into memory, reporting bytes as they arrive
+const readFileBuffer = async (
+  file: File,
+  onBytes?: (bytesProcessed: number) => void
+): Promise<Uint8Array> => {
+  const buffer = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+  
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      buffer.set(value, offset);
+      offset += value.length;
+      onBytes?.(offset);
+    }
+  } catch {
+    throw new Error(`Failed to read ${file.name}`);
+  }
+  
+  return buffer;
+};
+
+// Number of rows spanned by a worksheet
+const countSheetRows = (worksheet: XLSX.WorkSheet): number => {
+  if (!worksheet?.['!ref']) return 0;
+  
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  return range.e.r - range.s.r + 1;
+};
+
+// Convert a worksheet to rows in batches so progress can be reported
+const readSheetRows = (
+  worksheet: XLSX.WorkSheet,
+  onRows?: (rowsProcessed: number) => void
+): (string | number | null)[][] => {
+  if (!worksheet?.['!ref']) return [];
+  
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const rows: (string | number | null)[][] = [];
+  
+  for (let start = range.s.r; start <= range.e.r; start += SHEET_ROW_BATCH) {
+    const batch = XLSX.utils.sheet_to_json(worksheet, {
+      header: 1,
+      defval: null,
+      raw: false,
+      range: {
+        s: { r: start, c: range.s.c },
+        e: { r: Math.min(start + SHEET_ROW_BATCH - 1, range.e.r), c: range.e.c },
+      },
+    }) as (string | number | null)[][];
+    
+    for (const row of batch) {
+      rows.push(row);
+    }
+    onRows?.(Math.min(start + SHEET_ROW_BATCH, range.e.r + 1) - range.s.r);
+  }
+  
+  return expandMergedCells(rows, worksheet['!merges'] ?? [], range.s);
 };
 
-// Detect if first row is header
-const detectHeader = (data: (string | number | null)[][]): boolean => {
-  if (!data || data.length < 2) return true;
+// Copy each merged range's value into every cell it covers
+const expandMergedCells = (
+  rows: (string | number | null)[][],
+  merges: XLSX.Range[],
+  origin: XLSX.CellAddress
+): (string | number | null)[][] => {
+  for (const merge of merges) {
+    const value = rows[merge.s.r - origin.r]?.[merge.s.c - origin.c] ?? null;
+    
+    for (let r = merge.s.r; r <= merge.e.r; r++) {
+      const row = rows[r - origin.r];
+      if (!row) continue;
+      
+      for (let c = merge.s.c; c <= merge.e.c; c++) {
+        row[c - origin.c] = value;
+      }
+    }
+  }
   
-  const firstRow = data[0];
-  const secondRow = data[1];
+  return rows;
+};
+
+// Build ParsedData from raw rows according to parse options
+const buildParsedData = (
+  rawData: (string | number | null)[][],
+  options: FileParseOptions
+): ParsedData => {
+  // Skip leading rows (banners, report titles) before looking for the header
+  const dataRows = options.skipRows ? rawData.slice(options.skipRows) : rawData;
+  
+  // Handle header detection, combining stacked header rows into one name
+  const headerRows = resolveHeaderRows(dataRows, options);
+  const headerBlock = dataRows.slice(0, headerRows);
+  const headers = headerRows > 0 
+    ? combineHeaderRows(headerBlock, Math.max(...headerBlock.map(row => row.length))) 
+    : generateHeaders(dataRows[0]?.length || 0);
+  const rows = dataRows.slice(headerRows);
+  
+  // Limit rows if specified
+  const finalRows = options.maxRows 
+    ? rows.slice(0, options.maxRows) 
+    : rows;
+
+  // Convert string data to appropriate types
+  const formats = detectColumnFormats(headers, finalRows, options);
+  const typedRows = convertDataTypes(finalRows, formats);
+  
+  // Detect column types
+  const columnTypes = detectColumnTypes(headers, typedRows, formats);
+
+  return {
+    headers,
+    rows: typedRows,
+    rowCount: finalRows.length,
+    columnTypes,
+    headerRows,
+  };
+};
+
+// Build ParsedData for formats that declare their column types
+const buildDeclaredParsedData = (
+  columns: DeclaredColumn[],
+  rows: (string | number | boolean | Date | null)[][],
+  options: FileParseOptions
+): ParsedData => {
+  const processedRows = options.skipRows ? rows.slice(options.skipRows) : rows;
+  const finalRows = options.maxRows 
+    ? processedRows.slice(0, options.maxRows) 
+    : processedRows;
   
-  // Check if first row has more strings than second row
-  const firstRowStringCount = firstRow.filter(cell => 
-    typeof cell === 'string' && isNaN(Number(cell))
-  ).length;
+  const headers = columns.map(column => column.name);
   
-  const secondRowStringCount = secondRow.filter(cell => 
-    typeof cell === 'string' && isNaN(Number(cell))
-  ).length;
+  // Keep the measured stats but trust the schema for the type itself
+  const columnTypes = detectColumnTypes(headers, finalRows).map((columnType, index) => ({
+    ...columnType,
+    type: columns[index].type,
+    confidence: 1.0,
+  }));
   
-  return firstRowStringCount > secondRowStringCount;
+  return {
+    headers,
+    rows: finalRows,
+    rowCount: finalRows.length,
+    columnTypes,
+  };
+};
+
+// Number of header rows: an explicit count, the legacy flag, or detection
+const resolveHeaderRows = (
+  data: (string | number | null)[][],
+  options: FileParseOptions
+): number => {
+  if (options.hasHeader === false) return 0;
+  if (options.headerRows !== undefined) return options.headerRows;
+  return options.hasHeader ? 1 : detectHeaderRowCount(data);
 };
 
 // Generate default headers
@@ -194,15 +504,93 @@ const generateHeaders = (columnCount: number): string[] => {
   return Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
 };
 
+// Rows sampled per column when voting on how its values are written
+const FORMAT_SAMPLE_ROWS = 1000;
+
+// How a column's text cells are read into typed values
+interface ColumnReadFormat {
+  booleanVocabulary: [string, string] | null;
+  dateFormat: DateFormat | null;
+  numberFormat: NumberFormat | null;
+}
+
+// Vote on each column's boolean, date and number formats from a sample of its cells
+const detectColumnFormats = (
+  headers: string[],
+  rows: (string | number | null)[][],
+  options: FileParseOptions
+): ColumnReadFormat[] => {
+  const sample = rows.slice(0, FORMAT_SAMPLE_ROWS);
+  const datePatterns = options.datePatterns ?? {};
+  
+  return headers.map((header, index) => {
+    const values = sample
+      .map(row => row[index])
+      .filter((cell): cell is string | number => cell !== null && String(cell).trim() !== '');
+    
+    // The vote only sees a sample, so a later value outside the vocabulary keeps the column text
+    const booleanVocabulary = detectBooleanVocabulary(values);
+    const isBoolean = booleanVocabulary && rows.slice(FORMAT_SAMPLE_ROWS).every(row => {
+      const cell = row[index];
+      return cell === null || String(cell).trim() === '' || parseBoolean(cell, booleanVocabulary) !== null;
+    });
+    if (isBoolean) {
+      return { booleanVocabulary, dateFormat: null, numberFormat: null };
+    }
+    
+    // A chosen date pattern wins over inference, and null means not a date
+    const override = datePatterns[header];
+    const dateFormat = override !== undefined
+      ? override === null ? null : { pattern: override }
+      : inferDateFormat(values, header);
+    if (dateFormat) {
+      return { booleanVocabulary: null, dateFormat, numberFormat: null };
+    }
+    
+    const textValues = values.filter((cell): cell is string => typeof cell === 'string');
+    const numberFormat = detectNumberFormat(textValues, options.numberLocale);
+    
+    // Phone numbers and IDs such as `12 345 678` only look like space-grouped thousands
+    const isSpacedCode = numberFormat?.locale === 'fr-FR' && isDigitCodeColumn(header, textValues);
+    return { 
+      booleanVocabulary: null, 
+      dateFormat: null, 
+      numberFormat: isSpacedCode ? null : numberFormat 
+    };
+  });
+};
+
 // Convert string data to appropriate types
-const convertDataTypes = (rows: (string | number | null)[][]): (string | number | Date | null)[][] => {
+const convertDataTypes = (
+  rows: (string | number | null)[][],
+  formats: ColumnReadFormat[] = []
+): (string | number | boolean | Date | null)[][] => {
   return rows.map(row => 
-    row.map(cell => {
+    row.map((cell, index) => {
       if (cell === null || cell === undefined || cell === '') {
         return null;
       }
       
       const str = String(cell).trim();
+      const { booleanVocabulary, dateFormat, numberFormat } = formats[index] ?? {};
+      
+      // Read flags with the column's own spelling of true and false
+      const bool = booleanVocabulary ? parseBoolean(str, booleanVocabulary) : null;
+      if (bool !== null) {
+        return bool;
+      }
+      
+      // Read dates with the column's pattern so day and month never swap
+      const date = dateFormat ? parseDateWithPattern(str, dateFormat.pattern) : null;
+      if (date) {
+        return date;
+      }
+      
+      // Try the column's separators, currency and percent conventions first
+      const formatted = numberFormat ? parseLocaleNumber(str, numberFormat.locale) : null;
+      if (formatted) {
+        return formatted.value;
+      }
       
       // Try to convert to number
       const num = Number(str);
@@ -210,15 +598,6 @@ const convertDataTypes = (rows: (string | number | null)[][]): (string | number
         return num;
       }
       
-      // Try to convert to date
-      const date = new Date(str);
-      if (date instanceof Date && !isNaN(date.getTime())) {
-        // Only convert if it looks like a date
-        if (str.match(/^\d{4}-\d{2}-\d{2}/) || str.match(/^\d{1,2}\/\d{1,2}\/\d{2,4}/)) {
-          return date;
-        }
-      }
-      
       return str;
     })
   );
@@ -227,10 +606,13 @@ const convertDataTypes = (rows: (string | number | null)[][]): (string | number
 // Detect column data types
 const detectColumnTypes = (
   headers: string[], 
-  rows: (string | number | Date | null)[][]
+  rows: (string | number | boolean | Date | null)[][],
+  formats: ColumnReadFormat[] = []
 ): ColumnType[] => {
   return headers.map((header, index) => {
-    const columnData = rows.map(row => row[index]).filter(cell => cell !== null);
+    const columnData = rows
+      .map(row => row[index])
+      .filter((cell): cell is string | number | boolean | Date => cell !== null);
     const samples = columnData.slice(0, 10); // Take first 10 non-null values as samples
     
     // Count types
@@ -249,7 +631,7 @@ const detectColumnTypes = (
     });
     
     // Determine dominant type
-    let dominantType: DataType = 'string';
+    let dominantType = 'string' as DataType;
     let maxCount = typeCounts.string;
     let confidence = 0;
     
@@ -269,6 +651,8 @@ const detectColumnTypes = (
       confidence = 0.5;
     }
     
+    const numberFormat = dominantType === 'number' ? formats[index]?.numberFormat ?? undefined : undefined;
+    
     return {
       name: header,
       type: dominantType,
@@ -276,43 +660,231 @@ const detectColumnTypes = (
       samples,
       nullCount: rows.length - columnData.length,
       uniqueCount: new Set(columnData).size,
+      numberFormat,
+      dateFormat: dominantType === 'date' ? formats[index]?.dateFormat ?? undefined : undefined,
+      semanticType: detectSemanticType(
+        header, 
+        dominantType, 
+        columnData.slice(0, FORMAT_SAMPLE_ROWS), 
+        numberFormat
+      ),
     };
   });
 };
 
+export type FileFormat = 'csv' | 'excel' | 'json' | 'parquet' | 'arrow' | 'text';
+
+// Identify a file's format from its extension
+export const getFileFormat = (fileName: string): FileFormat | null => {
+  const name = fileName.toLowerCase();
+  
+  if (name.endsWith('.csv')) return 'csv';
+  if (name.match(/\.(xlsx|xls)$/)) return 'excel';
+  if (name.match(/\.(json|ndjson|jsonl)$/)) return 'json';
+  if (name.endsWith('.parquet')) return 'parquet';
+  if (name.match(/\.(arrow|feather|ipc)$/)) return 'arrow';
+  if (name.match(/\.(txt|dat|prn)$/)) return 'text';
+  return null;
+};
+
+// Result of parsing a file's contents
+export interface ParsedFileContent {
+  parsedData: ParsedData;
+  sheets?: SheetData[];
+  columnBoundaries?: number[];
+  encoding?: string; // detected when not given in the parse options
+}
+
+// Parse file contents according to its extension
+export const parseFileData = async (
+  file: File,
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedFileContent> => {
+  if (isTextFormat(file.name) && !options.encoding) {
+    const encoding = await detectEncoding(file);
+    const content = await parseFileData(file, { ...options, encoding }, onProgress);
+    return { ...content, encoding };
+  }
+  
+  const content = await readFileContent(file, options, onProgress);
+  if (!options.fixes?.length) return content;
+  
+  // Cleanup fixes apply to the exposed sheet only
+  const parsedData = applyDataFixes(content.parsedData, options.fixes);
+  const sheetName = content.sheets ? pickSheet(content.sheets, options.sheetName).name : undefined;
+  
+  return {
+    ...content,
+    parsedData,
+    sheets: content.sheets?.map(sheet => sheet.name === sheetName ? { ...sheet, parsedData } : sheet),
+  };
+};
+
+// Read file contents with the parser for its format
+const readFileContent = async (
+  file: File,
+  options: FileParseOptions,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParsedFileContent> => {
+  switch (getFileFormat(file.name)) {
+    case 'csv':
+      return { parsedData: await parseCSVFile(file, options, onProgress) };
+      
+    case 'excel': {
+      const sheets = await parseExcelWorkbook(file, options, onProgress);
+      return { parsedData: pickSheet(sheets, options.sheetName).parsedData, sheets };
+    }
+      
+    case 'json':
+      return { parsedData: await parseJSONFile(file, options, onProgress) };
+      
+    case 'parquet':
+      return { parsedData: await parseParquetFile(file, options, onProgress) };
+      
+    case 'arrow':
+      return { parsedData: await parseArrowFile(file, options, onProgress) };
+      
+    case 'text': {
+      // Plain text exports are sometimes tab-separated rather than fixed-width
+      const sample = await readTextSample(file, options.encoding);
+      if (!options.columnBoundaries && (options.delimiter || isTabDelimited(sample))) {
+        return { parsedData: await parseCSVFile(file, { delimiter: '\t', ...options }, onProgress) };
+      }
+      return parseFixedWidthFile(file, options, onProgress);
+    }
+  }
+  
+  throw new Error('Unsupported file format');
+};
+
+// Apply cleanup fixes in order and re-detect the affected column types
+export const applyDataFixes = (parsedData: ParsedData, fixes: DataFix[]): ParsedData => {
+  const { headers, rows } = fixes.reduce(
+    (data, fix) => DataFixer.applyFix(data.headers, data.rows, fix),
+    { headers: parsedData.headers, rows: parsedData.rows }
+  );
+  
+  // Keep each column's read formats; renamed columns fall back to their position
+  const sameShape = headers.length === parsedData.headers.length;
+  const formats = headers.map((header, index): ColumnReadFormat => {
+    const previous = (sameShape ? parsedData.columnTypes[index] : undefined)
+      ?? parsedData.columnTypes.find(column => column.name === header);
+    return {
+      booleanVocabulary: null,
+      dateFormat: previous?.dateFormat ?? null,
+      numberFormat: previous?.numberFormat ?? null,
+    };
+  });
+  
+  return {
+    ...parsedData,
+    headers,
+    rows,
+    rowCount: rows.length,
+    columnTypes: detectColumnTypes(headers, rows, formats),
+  };
+};
+
+// Apply cleanup fixes to a file and record them so re-parsing keeps them
+export const applyFileFixes = (file: ProcessedFile, fixes: DataFix[]): Partial<ProcessedFile> => {
+  const parsedData = applyDataFixes(file.parsedData, fixes);
+  
+  return {
+    parsedData,
+    sheets: file.sheets?.map(sheet => sheet.name === file.sheetName ? { ...sheet, parsedData } : sheet),
+    parseOptions: { ...file.parseOptions, fixes: [...(file.parseOptions?.fixes ?? []), ...fixes] },
+    profile: undefined,
+  };
+};
+
 // Main file processing function
 export const processFile = async (
   uploadedFile: UploadedFile, 
-  options: FileParseOptions = {}
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
 ): Promise<ProcessedFile> => {
   try {
-    let parsedData: ParsedData;
+    const content = await parseFileData(uploadedFile.content, options, onProgress);
     
-    if (uploadedFile.name.toLowerCase().endsWith('.csv')) {
-      parsedData = await parseCSVFile(uploadedFile.content, options);
-    } else if (uploadedFile.name.toLowerCase().match(/\.(xlsx|xls)$/)) {
-      parsedData = await parseExcelFile(uploadedFile.content, options);
-    } else {
-      throw new Error('Unsupported file format');
-    }
-    
-    return {
-      ...uploadedFile,
-      parsedData,
-      encoding: options.encoding || 'utf-8',
-      delimiter: options.delimiter,
-      hasHeader: options.hasHeader ?? true,
-      status: 'ready',
-    };
+    return toProcessedFile(uploadedFile, content, options);
   } catch (error) {
-    return {
-      ...uploadedFile,
-      status: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-    } as ProcessedFile;
+    return toFailedFile(uploadedFile, error);
   }
 };
 
+// Combine an upload with its parse result
+export const toProcessedFile = (
+  uploadedFile: UploadedFile,
+  content: ParsedFileContent,
+  options: FileParseOptions = {}
+): ProcessedFile => ({
+  ...uploadedFile,
+  parsedData: content.parsedData,
+  encoding: content.encoding || options.encoding || 'utf-8',
+  delimiter: options.delimiter,
+  hasHeader: content.parsedData.headerRows !== 0,
+  sheets: content.sheets,
+  sheetName: content.sheets ? pickSheet(content.sheets, options.sheetName).name : undefined,
+  columnBoundaries: content.columnBoundaries,
+  parseOptions: options,
+  profile: undefined,
+  status: 'ready',
+});
+
+// Mark an upload as failed
+export const toFailedFile = (uploadedFile: UploadedFile, error: unknown): ProcessedFile => ({
+  ...uploadedFile,
+  status: 'error',
+  error: error instanceof Error ? error.message : 'Unknown error occurred',
+} as ProcessedFile);
+
+// Expose another sheet of a workbook as the file's parsed data
+export const selectSheet = (file: ProcessedFile, sheetName: string): Partial<ProcessedFile> => {
+  const sheet = file.sheets?.find(s => s.name === sheetName);
+  if (!sheet) return {};
+  
+  return { 
+    sheetName: sheet.name, 
+    parsedData: sheet.parsedData,
+    // Recorded fixes name the previous sheet's columns
+    parseOptions: { ...file.parseOptions, sheetName: sheet.name, fixes: undefined },
+  };
+};
+
+// Display name for a sheet split out of a workbook
+export const getSheetFileName = (file: ProcessedFile, sheetName: string): string => {
+  return `${file.name} [${sheetName}]`;
+};
+
+// Split a workbook sheet out into a standalone file
+export const createSheetFile = (file: ProcessedFile, sheetName: string): ProcessedFile | null => {
+  const sheet = file.sheets?.find(s => s.name === sheetName);
+  if (!sheet) return null;
+  
+  return {
+    ...file,
+    id: generateId(),
+    name: getSheetFileName(file, sheet.name),
+    parsedData: sheet.parsedData,
+    sheets: undefined,
+    sheetName: sheet.name,
+  };
+};
+
+// Overall completion (0-100) for a parse progress report
+export const getProgressPercentage = (progress: ParseProgress): number => {
+  const bytesRatio = progress.totalBytes > 0 ? progress.bytesProcessed / progress.totalBytes : 1;
+  
+  // Spreadsheets are read fully before rows are converted, so split the bar between both phases
+  if (progress.totalRows !== undefined) {
+    const rowsRatio = progress.totalRows > 0 ? progress.rowsProcessed / progress.totalRows : 0;
+    return (bytesRatio * 0.5 + rowsRatio * 0.5) * 100;
+  }
+  
+  return bytesRatio * 100;
+};
+
 // Auto-detect delimiter for CSV files
 export const detectDelimiter = (sample: string): string => {
   const delimiters = [',', ';', '\t', '|'];
@@ -320,7 +892,8 @@ export const detectDelimiter = (sample: string): string => {
   let detectedDelimiter = ',';
   
   delimiters.forEach(delimiter => {
-    const count = (sample.match(new RegExp(delimiter, 'g')) || []).length;
+    // Split rather than a RegExp: '|' would match at every position
+    const count = sample.split(delimiter).length - 1;
     if (count > maxCount) {
       maxCount = count;
       detectedDelimiter = delimiter;
@@ -330,19 +903,14 @@ export const detectDelimiter = (sample: string): string => {
   return detectedDelimiter;
 };
 
-// Auto-detect encoding
-export const detectEncoding = (file: File): Promise<string> => {
-  return new Promise((resolve) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const text = reader.result as string;
-      // Simple encoding detection - in production, you might want to use a more sophisticated library
-      if (text.includes('�')) {
-        resolve('windows-1252');
-      } else {
-        resolve('utf-8');
-      }
-    };
-    reader.readAsText(file.slice(0, 1024)); // Read first 1KB for detection
-  });
-};
\ No newline at end of file
+// Auto-detect encoding from a byte order mark or the byte patterns of the first 64KB
+export const detectEncoding = async (file: File): Promise<string> => {
+  const sample = new Uint8Array(await file.slice(0, 64 * 1024).arrayBuffer());
+  return detectEncodingFromBytes(sample);
+};
+
+// Formats decoded as text, where the character encoding matters
+export const isTextFormat = (fileName: string): boolean => {
+  const format = getFileFormat(fileName);
+  return format === 'csv' || format === 'json' || format === 'text';
+};
@@ -0,0 +1,67 @@
+import { processFile, toFailedFile, toProcessedFile, type ParsedFileContent } from './file-utils';
+import type { 
+  UploadedFile, 
+  ProcessedFile, 
+  FileParseOptions, 
+  ParseProgress 
+} from '@/types';
+
+/**
+ * Off-main-thread file parsing
+ */
+
+export interface ParseWorkerRequest {
+  file: File;
+  options: FileParseOptions;
+}
+
+export type ParseWorkerResponse =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'result'; content: ParsedFileContent }
+  | { type: 'error'; error: string };
+
+/**
+ * Parse an uploaded file in a Web Worker, falling back to the main thread
+ * where workers are unavailable
+ */
+export const processFileInWorker = (
+  uploadedFile: UploadedFile,
+  options: FileParseOptions = {},
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ProcessedFile> => {
+  if (typeof Worker === 'undefined') {
+    return processFile(uploadedFile, options, onProgress);
+  }
+
+  return new Promise((resolve) => {
+    const worker = new Worker(new URL('./workers/file-parser.worker.ts', import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<ParseWorkerResponse>) => {
+      const message = event.data;
+      
+      switch (message.type) {
+        case 'progress':
+          onProgress?.(message.progress);
+          break;
+          
+        case 'result':
+          worker.terminate();
+          resolve(toProcessedFile(uploadedFile, message.content, options));
+          break;
+          
+        case 'error':
+          worker.terminate();
+          resolve(toFailedFile(uploadedFile, new Error(message.error)));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      resolve(toFailedFile(uploadedFile, new Error(event.message || 'File parser crashed')));
+    };
+
+    const request: ParseWorkerRequest = { file: uploadedFile.content, options };
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,64 @@
+/**
+ * Fixed-width text file utilities
+ */
+
+// Share of sample lines that must be blank at a position for it to count as a gap
+const GAP_THRESHOLD = 0.95;
+
+/**
+ * Infer column start offsets from whitespace alignment across sample lines.
+ * Returns the offsets where a column begins, excluding the implicit 0.
+ */
+export function inferColumnBoundaries(lines: string[]): number[] {
+  const sample = lines.filter(line => line.trim() !== '');
+  if (sample.length === 0) return [];
+  
+  const width = Math.max(...sample.map(line => line.length));
+  const isGap: boolean[] = [];
+  
+  for (let position = 0; position < width; position++) {
+    const blankCount = sample.filter(line => 
+      position >= line.length || line[position] === ' '
+    ).length;
+    isGap.push(blankCount / sample.length >= GAP_THRESHOLD);
+  }
+  
+  // A column starts wherever text follows a run of gap positions
+  const boundaries: number[] = [];
+  for (let position = 1; position < width; position++) {
+    if (isGap[position - 1] && !isGap[position]) {
+      boundaries.push(position);
+    }
+  }
+  
+  return boundaries;
+}
+
+/**
+ * Split a line into trimmed fields at the given column offsets
+ */
+export function splitFixedWidthLine(line: string, boundaries: number[]): string[] {
+  const starts = [0, ...boundaries];
+  
+  return starts.map((start, index) => {
+    const end = index < boundaries.length ? boundaries[index] : undefined;
+    return line.slice(start, end).trim();
+  });
+}
+
+/**
+ * Normalize user-edited boundaries: positive, unique and ascending
+ */
+export function normalizeBoundaries(boundaries: number[]): number[] {
+  return [...new Set(boundaries.map(Math.round))]
+    .filter(boundary => boundary > 0)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Check whether text lines look tab-delimited rather than fixed-width
+ */
+export function isTabDelimited(lines: string[]): boolean {
+  const sample = lines.filter(line => line.trim() !== '');
+  return sample.length > 0 && sample.every(line => line.includes('\t'));
+}
@@ -0,0 +1,94 @@
+/**
+ * Header row detection and reconstruction utilities
+ */
+
+type RawCell = string | number | null;
+
+// Most stacked header blocks in exported reports are two or three rows deep
+export const MAX_HEADER_ROWS = 3;
+
+// Separator placed between the parts of a combined header name
+export const HEADER_PART_SEPARATOR = ' / ';
+
+const isBlank = (cell: RawCell): boolean =>
+  cell === null || String(cell).trim() === '';
+
+const isNumericCell = (cell: RawCell): boolean =>
+  typeof cell === 'number' || (!isBlank(cell) && !isNaN(Number(cell)));
+
+const isTextCell = (cell: RawCell): boolean =>
+  !isBlank(cell) && !isNumericCell(cell);
+
+const countCells = (row: RawCell[], predicate: (cell: RawCell) => boolean): number =>
+  row.filter(predicate).length;
+
+/**
+ * Detect how many leading rows form the header block.
+ * Label rows contain no numbers; a row below the first only joins the block
+ * when it labels a column that holds numbers in the first data row.
+ */
+export function detectHeaderRowCount(data: RawCell[][]): number {
+  if (!data || data.length < 2) return 1;
+
+  let labelRows = 0;
+  while (
+    labelRows < MAX_HEADER_ROWS &&
+    labelRows < data.length - 1 &&
+    countCells(data[labelRows], isNumericCell) === 0
+  ) {
+    labelRows++;
+  }
+
+  const dataRow = data[labelRows];
+
+  // Without numbers to tell labels from values, compare the first two rows
+  if (labelRows === 0 || countCells(dataRow, isNumericCell) === 0) {
+    return countCells(data[0], isTextCell) > countCells(data[1], isTextCell) ? 1 : 0;
+  }
+
+  let headerRows = 1;
+  while (headerRows < labelRows) {
+    const labelsNumericColumn = data[headerRows].some((cell, column) =>
+      isTextCell(cell) && isNumericCell(dataRow[column] ?? null)
+    );
+    if (!labelsNumericColumn) break;
+    headerRows++;
+  }
+
+  return headerRows;
+}
+
+/**
+ * Combine a block of header rows into one name per column, e.g. `Q1 / Revenue`.
+ * Blank cells in upper rows inherit the group label to their left, and a label
+ * repeated down a column (such as an expanded vertical merge) is kept once.
+ */
+export function combineHeaderRows(headerBlock: RawCell[][], columnCount: number): string[] {
+  const labels = headerBlock.map(row =>
+    Array.from({ length: columnCount }, (_, column) =>
+      isBlank(row[column] ?? null) ? '' : String(row[column]).trim()
+    )
+  );
+
+  // Spread group labels across the blank cells they span
+  for (let rowIndex = 0; rowIndex < labels.length - 1; rowIndex++) {
+    const row = labels[rowIndex];
+    for (let column = 1; column < columnCount; column++) {
+      const sameParentGroup = labels
+        .slice(0, rowIndex)
+        .every(above => above[column] === above[column - 1]);
+
+      if (row[column] === '' && sameParentGroup) {
+        row[column] = row[column - 1];
+      }
+    }
+  }
+
+  return Array.from({ length: columnCount }, (_, column) => {
+    const parts = labels
+      .map(row => row[column])
+      .filter((part, index, all) => part !== '' && part !== all[index - 1]);
+
+    return parts.length > 0 ? parts.join(HEADER_PART_SEPARATOR) : `Column ${column + 1}`;
+  });
+}
@@ -0,0 +1,163 @@
+/**
+ * JSON record extraction and flattening utilities
+ */
+
+export type ArrayPolicy = 'explode' | 'stringify';
+
+export type FlatRecord = Record<string, string | number | null>;
+
+/**
+ * Check whether a file name denotes newline-delimited JSON
+ */
+export function isLineDelimitedJSON(fileName: string): boolean {
+  return /\.(ndjson|jsonl)$/i.test(fileName);
+}
+
+/**
+ * Parse newline-delimited JSON, one value per non-empty line
+ */
+export function parseNDJSON(text: string): unknown[] {
+  const records: unknown[] = [];
+  const lines = text.split(/\r?\n/);
+  
+  lines.forEach((line, index) => {
+    if (line.trim() === '') return;
+    
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1}`);
+    }
+  });
+  
+  return records;
+}
+
+/**
+ * Extract the list of records from a JSON document.
+ * Accepts a top-level array, NDJSON, or an object wrapping an array property
+ * (either given by a dotted `recordPath` or the first array found).
+ */
+export function extractRecords(text: string, lineDelimited: boolean, recordPath?: string): unknown[] {
+  if (lineDelimited) {
+    return parseNDJSON(text);
+  }
+  
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    // Many API dumps are saved as .json but are really line-delimited
+    return parseNDJSON(text);
+  }
+  
+  if (Array.isArray(document)) {
+    return document;
+  }
+  
+  if (isPlainObject(document)) {
+    if (recordPath) {
+      const target = getPath(document, recordPath);
+      if (!Array.isArray(target)) {
+        throw new Error(`"${recordPath}" is not an array in this document`);
+      }
+      return target;
+    }
+    
+    const arrayPath = findRecordArrayPath(document);
+    return arrayPath ? getPath(document, arrayPath) as unknown[] : [document];
+  }
+  
+  return [document];
+}
+
+/**
+ * Find the dotted path of the largest array of objects inside a document
+ */
+export function findRecordArrayPath(document: Record<string, unknown>): string | null {
+  const candidates: { path: string; length: number }[] = [];
+  collectRecordArrays(document, '', candidates);
+  
+  candidates.sort((a, b) => b.length - a.length);
+  return candidates[0]?.path ?? null;
+}
+
+/**
+ * Flatten a JSON value into one or more flat rows.
+ * Nested objects become dotted keys (`customer.address.city`); arrays are either
+ * exploded into one row per element or kept as a JSON string.
+ */
+export function flattenRecord(value: unknown, arrayPolicy: ArrayPolicy, prefix: string = ''): FlatRecord[] {
+  if (Array.isArray(value)) {
+    if (arrayPolicy === 'stringify') {
+      return [{ [prefix || 'value']: JSON.stringify(value) }];
+    }
+    if (value.length === 0) {
+      return [{ [prefix || 'value']: null }];
+    }
+    return value.flatMap(item => flattenRecord(item, arrayPolicy, prefix));
+  }
+  
+  if (isPlainObject(value)) {
+    let rows: FlatRecord[] = [{}];
+    
+    for (const [key, child] of Object.entries(value)) {
+      const childRows = flattenRecord(child, arrayPolicy, prefix ? `${prefix}.${key}` : key);
+      
+      // Sibling arrays multiply out, like a join of their elements
+      rows = rows.flatMap(row => childRows.map(childRow => ({ ...row, ...childRow })));
+    }
+    
+    return rows;
+  }
+  
+  return [{ [prefix || 'value']: toCell(value) }];
+}
+
+/**
+ * Collect column names across rows, in order of first appearance
+ */
+export function collectHeaders(rows: FlatRecord[]): string[] {
+  const headers = new Set<string>();
+  
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => headers.add(key));
+  });
+  
+  return Array.from(headers);
+}
+
+function collectRecordArrays(
+  node: Record<string, unknown>,
+  prefix: string,
+  candidates: { path: string; length: number }[]
+): void {
+  for (const [key, value] of Object.entries(node)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    
+    if (Array.isArray(value)) {
+      if (value.some(isPlainObject)) {
+        candidates.push({ path, length: value.length });
+      }
+    } else if (isPlainObject(value)) {
+      collectRecordArrays(value, path, candidates);
+    }
+  }
+}
+
+function toCell(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  return String(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getPath(document: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => isPlainObject(current) ? current[key] : undefined,
+    document
+  );
+}
@@ -0,0 +1,176 @@
+import { DataMerger, DataTransformer } from './data-merging';
+import { getMappedSources, getMappedTargets, getOutputColumns } from './mapping-utils';
+import type {
+  ColumnMapping,
+  KeyOverlapAnalysis,
+  KeyRelationship,
+  KeySideStats,
+  ProcessedFile
+} from '@/types';
+
+// Pre-merge join key analysis
+
+type Cell = string | number | boolean | Date | null;
+
+// Orphan keys listed per side
+const MAX_ORPHAN_EXAMPLES = 5;
+
+interface KeyColumn {
+  fileId: string;
+  fileName: string;
+  column: string;
+  values: Cell[];
+}
+
+/**
+ * Checks whether a join key actually links files before they are merged
+ */
+export class KeyAnalyzer {
+  /**
+   * Analyze a join key (a target column) for every pair of mapped files that provide it
+   */
+  static analyzeJoinKey(
+    files: ProcessedFile[],
+    mappings: ColumnMapping[],
+    joinKey: string
+  ): KeyOverlapAnalysis[] {
+    const keyColumns = mappings
+      .map(mapping => this.getKeyColumn(files, mapping, joinKey))
+      .filter((column): column is KeyColumn => column !== null);
+
+    return keyColumns.flatMap((left, index) =>
+      keyColumns.slice(index + 1).map(right => this.analyzeKeyPair(left, right))
+    );
+  }
+
+  /**
+   * Target columns that at least two mapped files provide, i.e. possible join keys
+   */
+  static getCandidateKeys(mappings: ColumnMapping[]): string[] {
+    const counts = new Map<string, number>();
+    mappings.forEach(mapping => {
+      new Set(getOutputColumns(mapping)).forEach(target => {
+        counts.set(target, (counts.get(target) || 0) + 1);
+      });
+    });
+
+    return [...counts.entries()]
+      .filter(([, count]) => count > 1)
+      .map(([target]) => target)
+      .sort();
+  }
+
+  /**
+   * Compare the keys of two columns: uniqueness, overlap, orphans and cardinality
+   */
+  private static analyzeKeyPair(left: KeyColumn, right: KeyColumn): KeyOverlapAnalysis {
+    const leftCounts = this.countKeys(left.values);
+    const rightCounts = this.countKeys(right.values);
+
+    const matched = [...leftCounts.keys()].filter(key => rightCounts.has(key));
+    const distinctTotal = new Set([...leftCounts.keys(), ...rightCounts.keys()]).size;
+
+    return {
+      left: this.getSideStats(left, leftCounts, rightCounts),
+      right: this.getSideStats(right, rightCounts, leftCounts),
+      matchedKeys: matched.length,
+      overlapPercentage: distinctTotal > 0 ? (matched.length / distinctTotal) * 100 : 0,
+      relationship: this.getRelationship(matched, leftCounts, rightCounts),
+    };
+  }
+
+  /**
+   * Join key values of a file as the merge sees them: after combining,
+   * splitting, transforms and derived columns
+   */
+  private static getKeyColumn(
+    files: ProcessedFile[],
+    mapping: ColumnMapping,
+    joinKey: string
+  ): KeyColumn | null {
+    const file = files.find(f => f.id === mapping.sourceFileId);
+    if (!file?.parsedData) return null;
+
+    // Only the mappings that fill the key, plus derived columns up to the one named after it
+    const maps = mapping.mappings.filter(map => getMappedTargets(map).includes(joinKey));
+    const derivedColumns = mapping.derivedColumns ?? [];
+    const derivedIndex = derivedColumns.findIndex(column => column.targetColumn === joinKey);
+    if (maps.length === 0 && derivedIndex === -1) return null;
+
+    let transformed: { headers: string[]; data: Cell[][] };
+    try {
+      transformed = DataTransformer.transformData(
+        file.parsedData.rows,
+        file.parsedData.headers,
+        maps,
+        derivedColumns.slice(0, derivedIndex + 1)
+      );
+    } catch {
+      return null;
+    }
+
+    // The merge aligns duplicate targets to the last one
+    const index = transformed.headers.lastIndexOf(joinKey);
+    if (index === -1) return null;
+
+    return {
+      fileId: file.id,
+      fileName: file.name,
+      column: derivedIndex !== -1 ? joinKey : getMappedSources(maps[maps.length - 1]).join(' + '),
+      values: transformed.data.map(row => row[index]),
+    };
+  }
+
+  private static getSideStats(
+    column: KeyColumn,
+    counts: Map<string, number>,
+    otherCounts: Map<string, number>
+  ): KeySideStats {
+    const orphans = [...counts.keys()].filter(key => !otherCounts.has(key));
+    const keyedRows = [...counts.values()].reduce((sum, count) => sum + count, 0);
+
+    return {
+      fileId: column.fileId,
+      fileName: column.fileName,
+      column: column.column,
+      rowCount: column.values.length,
+      distinctCount: counts.size,
+      nullCount: column.values.length - keyedRows,
+      duplicateKeyCount: [...counts.values()].filter(count => count > 1).length,
+      orphanCount: orphans.length,
+      orphanExamples: orphans.slice(0, MAX_ORPHAN_EXAMPLES),
+    };
+  }
+
+  /**
+   * Cardinality from how often matched keys repeat on each side
+   */
+  private static getRelationship(
+    matched: string[],
+    leftCounts: Map<string, number>,
+    rightCounts: Map<string, number>
+  ): KeyRelationship {
+    // Without any matches, fall back to each side's overall uniqueness
+    const keys = (counts: Map<string, number>) => matched.length > 0 ? matched : [...counts.keys()];
+    const leftMany = keys(leftCounts).some(key => (leftCounts.get(key) || 0) > 1);
+    const rightMany = keys(rightCounts).some(key => (rightCounts.get(key) || 0) > 1);
+
+    if (leftMany && rightMany) return 'N:M';
+    if (leftMany) return 'N:1';
+    if (rightMany) return '1:N';
+    return '1:1';
+  }
+
+  /**
+   * Rows per key, compared exactly as the join compares them; empty keys are left out
+   */
+  private static countKeys(values: Cell[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    values.forEach(value => {
+      const key = DataMerger.toJoinKey(value ?? null);
+      if (key === '') return;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  }
+}
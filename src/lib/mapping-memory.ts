@@ -0,0 +1,73 @@
+import type { MappingDecision } from '@/types';
+
+// Mapping memory: accepted and rejected column pairs from earlier sessions
+
+// Oldest decisions are forgotten beyond this
+const MAX_DECISIONS = 2000;
+
+export type MappingDecisionInput = Pick<MappingDecision, 'sourceColumn' | 'targetColumn' | 'accepted' | 'fileName'>;
+
+export interface RecalledDecision {
+  decision: MappingDecision;
+  sameFile: boolean; // made for a file with the same name as the current one
+}
+
+const columnKey = (column: string): string => column.trim().toLowerCase();
+
+/**
+ * Records mapping decisions and recalls them for later suggestions
+ */
+export class MappingMemory {
+  /**
+   * Memory with the new decisions merged in. A pair decided again replaces its
+   * earlier decision, counting repeats of the same verdict.
+   */
+  static record(memory: MappingDecision[], decisions: MappingDecisionInput[], now = Date.now()): MappingDecision[] {
+    const byPair = new Map(memory.map(decision => [this.pairKey(decision), decision]));
+
+    for (const input of decisions) {
+      const key = this.pairKey(input);
+      const previous = byPair.get(key);
+
+      // Re-insert so the map stays ordered by recency
+      byPair.delete(key);
+      byPair.set(key, {
+        ...input,
+        count: previous?.accepted === input.accepted ? previous.count + 1 : 1,
+        decidedAt: now,
+      });
+    }
+
+    return [...byPair.values()].slice(-MAX_DECISIONS);
+  }
+
+  /**
+   * The decision that applies to each target previously considered for a source
+   * column. Decisions made for the same file win over those from other files,
+   * then the most recent one.
+   */
+  static recall(memory: MappingDecision[], sourceColumn: string, fileName?: string): RecalledDecision[] {
+    const source = columnKey(sourceColumn);
+    const byTarget = new Map<string, RecalledDecision>();
+
+    for (const decision of memory) {
+      if (columnKey(decision.sourceColumn) !== source) continue;
+
+      const recalled = { decision, sameFile: !!fileName && decision.fileName === fileName };
+      const current = byTarget.get(decision.targetColumn);
+      if (
+        !current ||
+        (recalled.sameFile && !current.sameFile) ||
+        (recalled.sameFile === current.sameFile && decision.decidedAt >= current.decision.decidedAt)
+      ) {
+        byTarget.set(decision.targetColumn, recalled);
+      }
+    }
+
+    return [...byTarget.values()];
+  }
+
+  private static pairKey(decision: MappingDecisionInput): string {
+    return JSON.stringify([columnKey(decision.sourceColumn), decision.targetColumn, decision.fileName ?? '']);
+  }
+}
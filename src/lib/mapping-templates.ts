@@ -0,0 +1,173 @@
+import { solveMaxAssignment } from './assignment';
+import { DEFAULT_VOCABULARY, normalizeTerm } from './synonym-dictionaries';
+import { calculateSimilarity } from './text-utils';
+import type { ColumnMapping, MappingTemplate, TemplateDrift, TemplateMatch } from '@/types';
+
+// Mapping templates: saved mappings reapplied to uploads with the same headers
+
+// Identifies exported template files
+const TEMPLATE_FORMAT = 'data-bridge-mapping-template';
+const TEMPLATE_VERSION = 1;
+
+// Share of headers an upload must have in common with a template to use it
+const TEMPLATE_MATCH_THRESHOLD = 0.6;
+
+// Header similarity needed to read a missing and a new column as one renamed column
+const RENAME_THRESHOLD = 0.6;
+
+// What an exported template file carries; ids stay local
+export type TemplateContent = Omit<MappingTemplate, 'id'>;
+
+interface TemplateFile {
+  format: typeof TEMPLATE_FORMAT;
+  version: number;
+  template: TemplateContent;
+}
+
+/**
+ * Matches uploads to saved mapping templates and reapplies them
+ */
+export class MappingTemplates {
+  /**
+   * Order-independent key for a set of headers
+   */
+  static getHeaderSignature(headers: string[]): string {
+    return headers.map(normalizeTerm).sort().join('|');
+  }
+
+  /**
+   * The template sharing the most headers with an upload, if any shares enough.
+   * Newer templates win ties.
+   */
+  static findBestMatch(templates: MappingTemplate[], headers: string[]): TemplateMatch | null {
+    const signature = this.getHeaderSignature(headers);
+    let best: TemplateMatch | null = null;
+
+    for (const template of templates) {
+      const drift = this.getHeaderSignature(template.headers) === signature
+        ? { newColumns: [], missingColumns: [], renamedColumns: [] }
+        : this.detectDrift(template, headers);
+      const score = this.getMatchScore(template, headers, drift);
+      if (score < TEMPLATE_MATCH_THRESHOLD) continue;
+
+      if (!best || score > best.score || (score === best.score && template.createdAt > best.template.createdAt)) {
+        best = { template, score, drift };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Columns an upload added, lost or renamed compared with a template
+   */
+  static detectDrift(template: MappingTemplate, headers: string[]): TemplateDrift {
+    const templateKeys = new Set(template.headers.map(normalizeTerm));
+    const uploadKeys = new Set(headers.map(normalizeTerm));
+
+    const missing = template.headers.filter(header => !uploadKeys.has(normalizeTerm(header)));
+    const added = headers.filter(header => !templateKeys.has(normalizeTerm(header)));
+
+    // Pair missing and new columns whose headers still look alike
+    const scores = missing.map(from => added.map(to => {
+      const similarity = calculateSimilarity(DEFAULT_VOCABULARY.normalize(from), DEFAULT_VOCABULARY.normalize(to));
+      return similarity >= RENAME_THRESHOLD ? similarity : 0;
+    }));
+    const assigned = solveMaxAssignment(scores);
+
+    const renamedColumns = missing.flatMap((from, i) =>
+      assigned[i] !== -1 && scores[i][assigned[i]] > 0 ? [{ from, to: added[assigned[i]] }] : []
+    );
+
+    return {
+      newColumns: added.filter(header => !renamedColumns.some(r => r.to === header)),
+      missingColumns: missing.filter(header => !renamedColumns.some(r => r.from === header)),
+      renamedColumns,
+    };
+  }
+
+  /**
+   * The template's mappings for an upload: sources follow renames and keep the
+   * upload's spelling, and mappings for missing columns are dropped
+   */
+  static applyTemplate(template: MappingTemplate, headers: string[], drift: TemplateDrift): ColumnMapping['mappings'] {
+    const headerByKey = new Map(headers.map(header => [normalizeTerm(header), header]));
+
+    const resolve = (column: string) =>
+      drift.renamedColumns.find(r => r.from === column)?.to ?? headerByKey.get(normalizeTerm(column));
+
+    // A combined mapping is only kept when all of its sources are present
+    return template.mappings.flatMap(mapping => {
+      const sourceColumn = resolve(mapping.sourceColumn);
+      const sourceColumns = mapping.sourceColumns?.map(resolve);
+      if (!sourceColumn || sourceColumns?.some(column => !column)) return [];
+      return [{ ...mapping, sourceColumn, ...(sourceColumns ? { sourceColumns: sourceColumns as string[] } : {}) }];
+    });
+  }
+
+  /**
+   * Template as a versioned JSON file
+   */
+  static serialize(template: MappingTemplate): string {
+    const file: TemplateFile = {
+      format: TEMPLATE_FORMAT,
+      version: TEMPLATE_VERSION,
+      template: {
+        name: template.name,
+        headers: template.headers,
+        mappings: template.mappings,
+        createdAt: template.createdAt,
+      },
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Read a template file written by `serialize`
+   */
+  static parse(text: string): TemplateContent {
+    let file: Partial<TemplateFile>;
+    try {
+      file = JSON.parse(text);
+    } catch {
+      throw new Error('Template file is not valid JSON');
+    }
+
+    if (file?.format !== TEMPLATE_FORMAT || typeof file.version !== 'number') {
+      throw new Error('Not a mapping template file');
+    }
+    if (file.version > TEMPLATE_VERSION) {
+      throw new Error(`Template version ${file.version} is newer than this app supports`);
+    }
+
+    const { name, headers, mappings, createdAt } = (file.template ?? {}) as Partial<TemplateContent>;
+    const isString = (value: unknown): value is string => typeof value === 'string';
+
+    if (
+      !isString(name) ||
+      !Array.isArray(headers) || !headers.every(isString) ||
+      !Array.isArray(mappings) ||
+      !mappings.every(mapping => isString(mapping?.sourceColumn) && isString(mapping?.targetColumn))
+    ) {
+      throw new Error('Template file is missing its name, headers or mappings');
+    }
+
+    return {
+      name,
+      headers,
+      mappings,
+      createdAt: typeof createdAt === 'number' ? createdAt : Date.now(),
+    };
+  }
+
+  /**
+   * Share of headers in common, counting renamed columns as half a match
+   */
+  private static getMatchScore(template: MappingTemplate, headers: string[], drift: TemplateDrift): number {
+    const total = Math.max(template.headers.length, headers.length);
+    if (total === 0) return 0;
+
+    const unchanged = template.headers.length - drift.missingColumns.length - drift.renamedColumns.length;
+    return (unchanged + drift.renamedColumns.length * 0.5) / total;
+  }
+}
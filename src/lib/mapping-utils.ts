@@ -0,0 +1,104 @@
+import { format } from 'date-fns';
+import type { ColumnCombine, ColumnMapping, ColumnSplit } from '@/types';
+
+/**
+ * Utilities for mappings between several source and target columns
+ */
+
+type Cell = string | number | boolean | Date | null;
+type MappedColumn = ColumnMapping['mappings'][0];
+
+/**
+ * Every source column a mapping reads, in order
+ */
+export function getMappedSources(map: MappedColumn): string[] {
+  return map.combine && map.sourceColumns?.length
+    ? [map.sourceColumn, ...map.sourceColumns]
+    : [map.sourceColumn];
+}
+
+/**
+ * Every target column a mapping fills, in order
+ */
+export function getMappedTargets(map: MappedColumn): string[] {
+  return map.split && map.targetColumns?.length
+    ? [map.targetColumn, ...map.targetColumns]
+    : [map.targetColumn];
+}
+
+/**
+ * Every target column a file's mapping produces, derived columns last
+ */
+export function getOutputColumns(mapping: ColumnMapping): string[] {
+  return [
+    ...mapping.mappings.flatMap(getMappedTargets),
+    ...(mapping.derivedColumns ?? []).map(derived => derived.targetColumn),
+  ];
+}
+
+/**
+ * One value from several source values
+ */
+export function combineValues(values: Cell[], combine: ColumnCombine): Cell {
+  const present = values.filter(value => value !== null && value !== undefined && value !== '');
+  if (present.length === 0) return null;
+
+  if (combine.kind === 'coalesce') return present[0];
+
+  return present
+    .map(value => value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value))
+    .join(combine.separator);
+}
+
+/**
+ * Why a split cannot be applied, or null when it can. Only a regex split can be
+ * invalid: its pattern must compile and must not be empty.
+ */
+export function checkSplit(split: ColumnSplit): string | null {
+  if (split.kind !== 'regex') return null;
+  if (!split.pattern) return 'Enter a pattern to split on';
+  try {
+    new RegExp(split.pattern, split.flags);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+}
+
+/**
+ * Split a value into exactly `count` parts. A delimiter split puts any surplus
+ * in the last part; a regex with capture groups takes the groups of its first
+ * match, otherwise it splits on the pattern. An empty pattern does not split.
+ */
+export function splitValue(value: Cell, split: ColumnSplit, count: number): Cell[] {
+  const parts: Cell[] = new Array(count).fill(null);
+  if (value === null || value === undefined || value === '') return parts;
+
+  const text = value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value);
+  let pieces: string[];
+
+  if (split.kind === 'delimiter') {
+    const all = split.delimiter ? text.split(split.delimiter) : [text];
+    pieces = all.length > count
+      ? [...all.slice(0, count - 1), all.slice(count - 1).join(split.delimiter)]
+      : all;
+  } else if (!split.pattern) {
+    pieces = [text];
+  } else {
+    const pattern = new RegExp(split.pattern, (split.flags ?? '').replace('g', ''));
+    const groupCount = new RegExp(`${split.pattern}|`).exec('')!.length - 1;
+    if (groupCount > 0) {
+      const match = pattern.exec(text);
+      if (!match) return parts;
+      pieces = match.slice(1);
+    } else {
+      pieces = text.split(pattern);
+    }
+  }
+
+  pieces.slice(0, count).forEach((piece, i) => {
+    const trimmed = piece?.trim();
+    parts[i] = trimmed ? trimmed : null;
+  });
+  return parts;
+}
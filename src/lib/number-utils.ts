@@ -0,0 +1,155 @@
+/**
+ * Locale-aware number parsing utilities
+ */
+
+import type { NumberFormat, NumberUnit } from '@/types';
+
+interface NumberLocale {
+  id: string;
+  label: string;
+  decimal: string;
+  group: string; // regex character class body for grouping separators
+}
+
+// Separator conventions, in order of preference when a column is ambiguous
+export const NUMBER_LOCALES: NumberLocale[] = [
+  { id: 'en-US', label: '1,234.56', decimal: '\\.', group: ',' },
+  { id: 'de-DE', label: '1.234,56', decimal: ',', group: '.' },
+  { id: 'fr-FR', label: '1 234,56', decimal: ',', group: ' \\u00a0\\u202f' },
+  { id: 'de-CH', label: "1'234.56", decimal: '\\.', group: "'\\u2019" },
+];
+
+// Currency symbols and the ISO codes they stand for
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  'R$': 'BRL',
+  'Rp': 'IDR',
+  '$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₩': 'KRW',
+  '₽': 'RUB',
+};
+
+const CURRENCY_CODES = [
+  'USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'CNY', 'INR',
+  'IDR', 'SGD', 'MYR', 'SEK', 'NOK', 'DKK', 'PLN', 'CZK', 'BRL', 'MXN', 'ZAR',
+];
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const CURRENCY_TOKEN = [...Object.keys(CURRENCY_SYMBOLS), ...CURRENCY_CODES]
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegex)
+  .join('|');
+
+const CURRENCY_PREFIX = new RegExp(`^(${CURRENCY_TOKEN})\\s*`);
+const CURRENCY_SUFFIX = new RegExp(`\\s*(${CURRENCY_TOKEN})$`);
+
+// Compiled once: parsing runs for every cell of every candidate locale
+const localePatterns = new Map(NUMBER_LOCALES.map(locale => [locale.id, {
+  number: new RegExp(`^(\\d{1,3}([${locale.group}]\\d{3})+|\\d+)?(${locale.decimal}\\d+)?$`),
+  group: new RegExp(`[${locale.group}]`, 'g'),
+  decimal: new RegExp(locale.decimal),
+}]));
+
+export interface ParsedNumber {
+  value: number;
+  unit?: NumberUnit;
+  currency?: string;
+}
+
+/**
+ * Parse a formatted number such as `€1,200`, `(350)`, `1.234,56` or `45%`.
+ * Percentages keep their written value; the unit records that they were percentages.
+ */
+export function parseLocaleNumber(text: string, localeId: string): ParsedNumber | null {
+  const pattern = localePatterns.get(localeId);
+  if (!pattern) return null;
+
+  let rest = text.trim();
+  let negative = false;
+  let currency: string | undefined;
+
+  const stripSign = () => {
+    // Accounting negatives wrap the amount in parentheses
+    if (rest.startsWith('(') && rest.endsWith(')')) {
+      negative = !negative;
+      rest = rest.slice(1, -1).trim();
+    }
+    if (/^[-−+]/.test(rest)) {
+      negative = rest[0] !== '+' ? !negative : negative;
+      rest = rest.slice(1).trim();
+    }
+  };
+
+  const stripCurrency = () => {
+    const match = rest.match(CURRENCY_PREFIX) ?? rest.match(CURRENCY_SUFFIX);
+    if (match && !currency) {
+      currency = CURRENCY_SYMBOLS[match[1]] ?? match[1];
+      rest = rest.replace(match[0], '').trim();
+    }
+  };
+
+  // Signs and currency markers appear in either order, e.g. `-$5` and `$-5`
+  stripSign();
+  stripCurrency();
+  stripSign();
+
+  const isPercent = rest.endsWith('%');
+  if (isPercent) {
+    rest = rest.slice(0, -1).trim();
+  }
+  stripCurrency();
+
+  if (!/\d/.test(rest) || !pattern.number.test(rest)) return null;
+
+  const normalized = rest.replace(pattern.group, '').replace(pattern.decimal, '.');
+  const value = Number(normalized);
+
+  if (!isFinite(value)) return null;
+
+  return {
+    value: negative ? -value : value,
+    unit: isPercent ? 'percent' : currency ? 'currency' : undefined,
+    currency,
+  };
+}
+
+/**
+ * Pick the separator convention that parses the most values in a column and
+ * the unit most of them carry. Ties go to the earlier locale in NUMBER_LOCALES.
+ */
+export function detectNumberFormat(values: string[], localeId?: string): NumberFormat | null {
+  const candidates = localeId
+    ? NUMBER_LOCALES.filter(locale => locale.id === localeId)
+    : NUMBER_LOCALES;
+
+  let best: { locale: string; parsed: ParsedNumber[] } | null = null;
+  for (const locale of candidates) {
+    const parsed = values
+      .map(value => parseLocaleNumber(value, locale.id))
+      .filter((result): result is ParsedNumber => result !== null);
+
+    if (parsed.length > 0 && (!best || parsed.length > best.parsed.length)) {
+      best = { locale: locale.id, parsed };
+    }
+  }
+
+  if (!best) return null;
+
+  const unitCounts = new Map<string, number>();
+  for (const result of best.parsed) {
+    const key = result.unit === 'currency' ? `currency:${result.currency}` : result.unit ?? '';
+    unitCounts.set(key, (unitCounts.get(key) ?? 0) + 1);
+  }
+
+  const [topUnit, topCount] = [...unitCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (!topUnit || topCount * 2 < best.parsed.length) {
+    return { locale: best.locale };
+  }
+
+  const [unit, currency] = topUnit.split(':') as [NumberUnit, string | undefined];
+  return currency ? { locale: best.locale, unit, currency } : { locale: best.locale, unit };
+}
@@ -0,0 +1,149 @@
+import { matchesSemanticType } from './semantic-utils';
+import type { ParsedData, PiiFinding, PiiType, TransformType } from '@/types';
+
+// Personal data detection
+
+// Values checked per column
+const PII_SAMPLE_ROWS = 1000;
+
+// Share of a column's values that must look personal for it to be flagged
+const PII_MATCH_THRESHOLD = 0.8;
+
+export const PII_TYPE_LABELS: Record<PiiType, string> = {
+  email: 'email addresses',
+  phone: 'phone numbers',
+  national_id: 'national ID numbers',
+  iban: 'IBANs',
+  credit_card: 'credit card numbers',
+  name: 'personal names',
+  address: 'street addresses',
+};
+
+// Transform that makes each kind of personal data safe to share
+export const PII_SUGGESTED_TRANSFORMS: Record<PiiType, TransformType> = {
+  email: 'pseudonymize',
+  phone: 'mask',
+  national_id: 'redact',
+  iban: 'mask',
+  credit_card: 'mask',
+  name: 'pseudonymize',
+  address: 'redact',
+};
+
+// US social security numbers and UK national insurance numbers
+const SSN_PATTERN = /^(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}$/;
+const NINO_PATTERN = /^[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]$/i;
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/;
+const CARD_PATTERN = /^\d(?:[ -]?\d){12,18}$/;
+const STREET_PATTERN = /^\d+[a-z]?\s+[\p{L}\s.'-]+\b(street|st|avenue|ave|road|rd|lane|ln|drive|dr|boulevard|blvd|way|court|ct|place|pl|strasse|straße|rue)\b/iu;
+const NAME_VALUE_PATTERN = /^\p{Lu}[\p{L}'-]*(?:[ ,]+\p{Lu}[\p{L}'.-]*){0,3}$/u;
+
+// Names are too varied to spot from values alone, so the header must agree
+const NAME_HEADER = /^(first|last|full|given|family|middle|sur|customer|contact|person)?[ _-]?name$|^(first|last|sur)name$|^(forename|surname)$/i;
+const ADDRESS_HEADER = /address|street|addr\b/i;
+const NATIONAL_ID_HEADER = /ssn|social.?security|national.?(id|insurance)|nino|tax.?id/i;
+
+/**
+ * Whether digits pass the Luhn checksum used by payment cards
+ */
+const passesLuhn = (digits: string): boolean => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+/**
+ * Whether an IBAN passes its ISO 7064 mod-97 checksum
+ */
+const passesIbanChecksum = (iban: string): boolean => {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+};
+
+/**
+ * Flags columns that hold personal data
+ */
+export class PiiScanner {
+  /**
+   * Scan every column of a dataset for personal data
+   */
+  static scanData(parsedData: ParsedData): PiiFinding[] {
+    const sample = parsedData.rows.slice(0, PII_SAMPLE_ROWS);
+
+    return parsedData.headers.flatMap((header, index) => {
+      const values = sample
+        .map(row => row[index])
+        .filter((value): value is string | number =>
+          (typeof value === 'string' && value.trim() !== '') || typeof value === 'number'
+        );
+      if (values.length === 0) return [];
+
+      const finding = this.scanColumn(header, values);
+      return finding ? [finding] : [];
+    });
+  }
+
+  /**
+   * Check a single value against a kind of personal data
+   */
+  static matchesPiiType(value: string | number, type: PiiType, header = ''): boolean {
+    const text = String(value).trim();
+
+    switch (type) {
+      case 'email':
+        return matchesSemanticType(text, 'email');
+
+      case 'phone':
+        return matchesSemanticType(text, 'phone', header);
+
+      case 'national_id':
+        return SSN_PATTERN.test(text) || NINO_PATTERN.test(text) ||
+          (NATIONAL_ID_HEADER.test(header) && /^\d{9}$/.test(text));
+
+      case 'iban': {
+        const compact = text.replace(/\s/g, '').toUpperCase();
+        return IBAN_PATTERN.test(compact) && passesIbanChecksum(compact);
+      }
+
+      case 'credit_card':
+        return CARD_PATTERN.test(text) && passesLuhn(text.replace(/\D/g, ''));
+
+      case 'name':
+        return NAME_HEADER.test(header.trim()) && NAME_VALUE_PATTERN.test(text);
+
+      case 'address':
+        return STREET_PATTERN.test(text) || (ADDRESS_HEADER.test(header) && /\d/.test(text) && /\p{L}{3,}/u.test(text));
+    }
+  }
+
+  /**
+   * The kind of personal data most of a column's values match, if any
+   */
+  private static scanColumn(header: string, values: (string | number)[]): PiiFinding | null {
+    // Checksummed and distinctive formats first so card numbers are not read as phones
+    const types: PiiType[] = ['email', 'iban', 'credit_card', 'national_id', 'phone', 'address', 'name'];
+
+    for (const type of types) {
+      const matchCount = values.filter(value => this.matchesPiiType(value, type, header)).length;
+      if (matchCount / values.length >= PII_MATCH_THRESHOLD) {
+        return { column: header, type, matchCount, sampleSize: values.length };
+      }
+    }
+
+    return null;
+  }
+}
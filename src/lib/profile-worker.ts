@@ -0,0 +1,51 @@
+import { DataProfiler } from './data-profiling';
+import type { ParsedData, DataProfile } from '@/types';
+
+/**
+ * Off-main-thread column profiling
+ */
+
+export interface ProfileWorkerRequest {
+  parsedData: ParsedData;
+  sheetName?: string;
+}
+
+export type ProfileWorkerResponse =
+  | { type: 'result'; profile: DataProfile }
+  | { type: 'error'; error: string };
+
+/**
+ * Profile parsed data in a Web Worker, falling back to the main thread
+ * where workers are unavailable
+ */
+export const profileDataInWorker = (
+  parsedData: ParsedData,
+  sheetName?: string
+): Promise<DataProfile> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(DataProfiler.profileData(parsedData, sheetName));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./workers/data-profiler.worker.ts', import.meta.url));
+
+    worker.onmessage = (event: MessageEvent<ProfileWorkerResponse>) => {
+      const message = event.data;
+      worker.terminate();
+      
+      if (message.type === 'result') {
+        resolve(message.profile);
+      } else {
+        reject(new Error(message.error));
+      }
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Profiler crashed'));
+    };
+
+    const request: ProfileWorkerRequest = { parsedData, sheetName };
+    worker.postMessage(request);
+  });
+};
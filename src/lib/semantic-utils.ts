@@ -0,0 +1,162 @@
+/**
+ * Boolean and semantic column type detection utilities
+ */
+
+import type { DataType, NumberFormat, SemanticType } from '@/types';
+
+export const SEMANTIC_TYPE_LABELS: Record<SemanticType, string> = {
+  email: 'Email',
+  url: 'URL',
+  phone: 'Phone',
+  postal_code: 'Postal code',
+  country_code: 'Country code',
+  currency_amount: 'Currency amount',
+  uuid: 'UUID',
+  integer_id: 'ID',
+};
+
+// Spellings of true and false that share a column, lowercase
+const BOOLEAN_VOCABULARIES: [string, string][] = [
+  ['true', 'false'],
+  ['yes', 'no'],
+  ['y', 'n'],
+  ['t', 'f'],
+  ['on', 'off'],
+  ['1', '0'],
+];
+
+// Share of a column's values that must fit a semantic type for it to apply
+const SEMANTIC_MATCH_THRESHOLD = 0.9;
+
+const SEMANTIC_PATTERNS: Partial<Record<SemanticType, RegExp>> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/,
+  url: /^(https?:\/\/|www\.)[^\s]+\.[^\s]+$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  // US ZIP+4, UK postcodes and Canadian postal codes are distinctive on their own
+  postal_code: /^(\d{5}-\d{4}|[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}|[A-Z]\d[A-Z] ?\d[A-Z]\d)$/i,
+};
+
+// Bare digit runs only count as phones, postal codes or IDs under a matching header
+const PHONE_HEADER = /phone|tel|mobile|cell|fax/i;
+const POSTAL_HEADER = /zip|postal|post ?code|plz/i;
+const ID_HEADER = /(id|key|code|no|num|number)$/i;
+const CURRENCY_HEADER = /price|amount|cost|revenue|total|salary|fee|balance/i;
+
+const regionNames = typeof Intl !== 'undefined' && 'DisplayNames' in Intl
+  ? new Intl.DisplayNames(['en'], { type: 'region' })
+  : null;
+
+const isCountryCode = (text: string): boolean => {
+  if (!regionNames || !/^[A-Z]{2}$/.test(text)) return false;
+
+  try {
+    // Unknown codes come back unchanged instead of as a country name
+    return regionNames.of(text) !== text;
+  } catch {
+    return false;
+  }
+};
+
+const isPhoneNumber = (text: string, header: string): boolean => {
+  if (!/^\+?[\d\s().-]+$/.test(text)) return false;
+
+  const digits = text.replace(/\D/g, '').length;
+  if (digits < 7 || digits > 15) return false;
+
+  // Formatting gives a phone away; plain digits need the header to agree
+  return /^\+|[\s().-]/.test(text) || PHONE_HEADER.test(header);
+};
+
+/**
+ * Find the true/false spelling a column uses, if every value belongs to one.
+ * Both values must appear, so a column of only `Y` or only `1` is a code or a
+ * count rather than a flag.
+ */
+export function detectBooleanVocabulary(values: (string | number)[]): [string, string] | null {
+  const distinct = new Set(values.map(value => String(value).trim().toLowerCase()));
+  if (distinct.size !== 2) return null;
+
+  return BOOLEAN_VOCABULARIES.find(([truthy, falsy]) => distinct.has(truthy) && distinct.has(falsy)) ?? null;
+}
+
+/**
+ * Whether a text column holds phone numbers or identifiers, whose
+ * space-separated digit groups are not thousands
+ */
+export function isDigitCodeColumn(header: string, values: string[]): boolean {
+  return ID_HEADER.test(header) || detectSemanticType(header, 'string', values) === 'phone';
+}
+
+/**
+ * Read a value as a boolean using the column's vocabulary
+ */
+export function parseBoolean(value: string | number, vocabulary: [string, string]): boolean | null {
+  const text = String(value).trim().toLowerCase();
+  if (text === vocabulary[0]) return true;
+  if (text === vocabulary[1]) return false;
+  return null;
+}
+
+/**
+ * Check a single value against a semantic type
+ */
+export function matchesSemanticType(value: unknown, semanticType: SemanticType, header = ''): boolean {
+  if (value === null || value === undefined) return false;
+
+  const text = String(value).trim();
+  const pattern = SEMANTIC_PATTERNS[semanticType];
+
+  switch (semanticType) {
+    case 'phone':
+      return isPhoneNumber(text, header);
+
+    case 'postal_code':
+      return (pattern?.test(text) ?? false) || (POSTAL_HEADER.test(header) && /^\d{4,6}$/.test(text));
+
+    case 'country_code':
+      return isCountryCode(text);
+
+    case 'currency_amount':
+      return typeof value === 'number';
+
+    case 'integer_id':
+      return typeof value === 'number' ? Number.isInteger(value) && value >= 0 : /^\d+$/.test(text);
+
+    default:
+      return pattern?.test(text) ?? false;
+  }
+}
+
+/**
+ * Detect what a column's values represent beyond their data type
+ */
+export function detectSemanticType(
+  header: string,
+  type: DataType,
+  values: (string | number | boolean | Date)[],
+  numberFormat?: NumberFormat
+): SemanticType | undefined {
+  if (values.length === 0 || type === 'boolean' || type === 'date') return undefined;
+
+  if (type === 'number') {
+    if (numberFormat?.unit === 'currency') return 'currency_amount';
+
+    const isIdColumn = ID_HEADER.test(header) &&
+      new Set(values).size === values.length &&
+      values.every(value => matchesSemanticType(value, 'integer_id'));
+    if (isIdColumn) return 'integer_id';
+  }
+
+  const candidates: SemanticType[] = type === 'number'
+    ? ['phone', 'postal_code']
+    : ['email', 'url', 'uuid', 'phone', 'postal_code', 'country_code'];
+
+  const semanticType = candidates.find(candidate => {
+    const matches = values.filter(value => matchesSemanticType(value, candidate, header)).length;
+    return matches / values.length >= SEMANTIC_MATCH_THRESHOLD;
+  });
+
+  if (semanticType) return semanticType;
+
+  return type === 'number' && CURRENCY_HEADER.test(header) ? 'currency_amount' : undefined;
+}
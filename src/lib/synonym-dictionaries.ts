@@ -0,0 +1,322 @@
+import Papa from 'papaparse';
+import type { SynonymDictionary, SynonymGroup } from '@/types';
+
+// Synonym dictionaries and domain vocabularies for column matching
+
+export type DictionaryFormat = 'json' | 'csv';
+
+// What an exported dictionary file carries; ids and enabled state stay local
+export type DictionaryContent = Pick<SynonymDictionary, 'name' | 'domain' | 'groups'>;
+
+export const GENERAL_PACK_ID = 'pack-general';
+
+// Separates terms within a CSV cell
+const CSV_TERM_SEPARATOR = ';';
+
+/**
+ * Vocabularies shipped with the app. The general pack always applies unless the
+ * user installs their own copy of it.
+ */
+export const SYNONYM_PACKS: SynonymDictionary[] = [
+  {
+    id: GENERAL_PACK_ID,
+    name: 'General business terms',
+    domain: 'general',
+    enabled: true,
+    groups: [
+      { terms: ['identifier', 'id', 'no', 'num', 'number', 'code'], category: 'identifier' },
+      { terms: ['key'], category: 'identifier' },
+      { terms: ['ref', 'reference'], category: 'identifier' },
+      { terms: ['name', 'title', 'label'], category: 'name' },
+      { terms: ['description'], category: 'name' },
+      { terms: ['first name', 'firstname', 'given name', 'forename'], category: 'name' },
+      { terms: ['last name', 'lastname', 'surname', 'family name'], category: 'name' },
+      { terms: ['full name', 'fullname'], category: 'name' },
+      { terms: ['date', 'time', 'timestamp'], category: 'date' },
+      { terms: ['created'], category: 'date' },
+      { terms: ['updated', 'modified'], category: 'date' },
+      { terms: ['amount', 'value', 'price', 'cost'], category: 'amount' },
+      { terms: ['total'], category: 'amount' },
+      { terms: ['sum'], category: 'amount' },
+      { terms: ['email', 'mail', 'e mail'], category: 'contact' },
+      { terms: ['phone', 'tel', 'telephone'], category: 'contact' },
+      { terms: ['mobile', 'cell'], category: 'contact' },
+      { terms: ['address'], category: 'contact' },
+      { terms: ['contact'], category: 'contact' },
+      { terms: ['status'], category: 'status' },
+      { terms: ['state'], category: 'status' },
+      { terms: ['flag'], category: 'status' },
+      { terms: ['active'], category: 'status' },
+      { terms: ['enabled'], category: 'status' },
+      { terms: ['count'], category: 'count' },
+      { terms: ['quantity', 'qty'], category: 'count' },
+      { terms: ['size'], category: 'count' },
+      { terms: ['length'], category: 'count' },
+      { terms: ['weight'], category: 'count' },
+      { terms: ['category'], category: 'category' },
+      { terms: ['type'], category: 'category' },
+      { terms: ['group'], category: 'category' },
+      { terms: ['class'], category: 'category' },
+      { terms: ['kind'], category: 'category' },
+      { terms: ['genre'], category: 'category' },
+    ],
+  },
+  {
+    id: 'pack-retail',
+    name: 'Retail',
+    domain: 'retail',
+    enabled: true,
+    groups: [
+      { terms: ['sku', 'stock keeping unit', 'article number', 'article no', 'item code', 'item number', 'product code'], category: 'identifier' },
+      { terms: ['barcode', 'ean', 'gtin', 'upc'], category: 'identifier' },
+      { terms: ['product', 'item', 'article', 'merchandise'], category: 'name' },
+      { terms: ['unit price', 'price per unit', 'price each'], category: 'amount' },
+      { terms: ['discount', 'markdown'], category: 'amount' },
+      { terms: ['units sold', 'quantity sold', 'sold qty'], category: 'count' },
+      { terms: ['store', 'shop', 'outlet'], category: 'location' },
+      { terms: ['customer', 'client', 'shopper', 'buyer'], category: 'party' },
+      { terms: ['transaction', 'receipt', 'sale'], category: 'identifier' },
+    ],
+  },
+  {
+    id: 'pack-hr',
+    name: 'Human resources',
+    domain: 'hr',
+    enabled: true,
+    groups: [
+      { terms: ['employee id', 'employee number', 'staff number', 'staff id', 'personnel number', 'payroll number', 'badge number'], category: 'identifier' },
+      { terms: ['employee', 'staff', 'worker', 'personnel'], category: 'party' },
+      { terms: ['manager', 'supervisor', 'line manager', 'reports to'], category: 'party' },
+      { terms: ['salary', 'base pay', 'annual pay', 'base salary'], category: 'amount' },
+      { terms: ['department', 'dept', 'division', 'business unit'], category: 'category' },
+      { terms: ['job title', 'position', 'role', 'designation'], category: 'name' },
+      { terms: ['hire date', 'start date', 'date of hire', 'joining date', 'date joined'], category: 'date' },
+      { terms: ['termination date', 'leaving date', 'exit date', 'date left'], category: 'date' },
+      { terms: ['date of birth', 'dob', 'birth date', 'birthdate'], category: 'date' },
+      { terms: ['fte', 'full time equivalent'], category: 'count' },
+    ],
+  },
+  {
+    id: 'pack-finance',
+    name: 'Finance',
+    domain: 'finance',
+    enabled: true,
+    groups: [
+      { terms: ['account number', 'account no', 'acct no', 'account id', 'acct'], category: 'identifier' },
+      { terms: ['invoice number', 'invoice no', 'inv no', 'bill number'], category: 'identifier' },
+      { terms: ['gl account', 'general ledger', 'ledger account', 'gl'], category: 'identifier' },
+      { terms: ['amount', 'amt'], category: 'amount' },
+      { terms: ['debit', 'dr'], category: 'amount' },
+      { terms: ['credit', 'cr'], category: 'amount' },
+      { terms: ['tax', 'vat', 'gst', 'sales tax'], category: 'amount' },
+      { terms: ['posting date', 'booking date', 'entry date'], category: 'date' },
+      { terms: ['currency', 'ccy', 'currency code'], category: 'category' },
+      { terms: ['cost center', 'cost centre'], category: 'category' },
+      { terms: ['vendor', 'supplier'], category: 'party' },
+      { terms: ['payee', 'beneficiary'], category: 'party' },
+    ],
+  },
+  {
+    id: 'pack-healthcare',
+    name: 'Healthcare',
+    domain: 'healthcare',
+    enabled: true,
+    groups: [
+      { terms: ['patient id', 'mrn', 'medical record number', 'patient number', 'chart number'], category: 'identifier' },
+      { terms: ['encounter id', 'visit id', 'visit number', 'episode id'], category: 'identifier' },
+      { terms: ['npi', 'national provider identifier', 'provider id'], category: 'identifier' },
+      { terms: ['provider', 'physician', 'doctor', 'clinician', 'practitioner'], category: 'party' },
+      { terms: ['diagnosis code', 'icd code', 'icd10', 'icd 10', 'dx code', 'dx'], category: 'category' },
+      { terms: ['procedure code', 'cpt code', 'cpt', 'hcpcs'], category: 'category' },
+      { terms: ['admission date', 'admit date', 'date of admission'], category: 'date' },
+      { terms: ['discharge date', 'date of discharge'], category: 'date' },
+      { terms: ['date of birth', 'dob', 'birth date', 'birthdate'], category: 'date' },
+      { terms: ['ward', 'care unit'], category: 'location' },
+    ],
+  },
+  {
+    id: 'pack-logistics',
+    name: 'Logistics',
+    domain: 'logistics',
+    enabled: true,
+    groups: [
+      { terms: ['tracking number', 'tracking no', 'waybill', 'air waybill', 'awb', 'consignment number', 'con note'], category: 'identifier' },
+      { terms: ['purchase order', 'po', 'po number', 'order reference'], category: 'identifier' },
+      { terms: ['shipment', 'consignment', 'load'], category: 'category' },
+      { terms: ['carrier', 'haulier', 'transporter', 'forwarder'], category: 'party' },
+      { terms: ['origin', 'ship from', 'pickup location'], category: 'location' },
+      { terms: ['destination', 'ship to', 'delivery address', 'consignee address'], category: 'location' },
+      { terms: ['warehouse', 'depot', 'distribution center', 'distribution centre', 'fulfillment center'], category: 'location' },
+      { terms: ['gross weight', 'gw'], category: 'count' },
+      { terms: ['pallets', 'pallet count', 'number of pallets'], category: 'count' },
+      { terms: ['eta', 'estimated arrival', 'estimated delivery', 'expected delivery date'], category: 'date' },
+    ],
+  },
+];
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Lowercase words separated by single spaces, splitting camelCase and separators
+ */
+export function normalizeTerm(text: string): string {
+  return text
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .replace(/[_\-\s./]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Term lookups built from a stack of dictionaries. Earlier dictionaries win when
+ * two of them define the same term.
+ */
+export class Vocabulary {
+  private canonicalByTerm = new Map<string, string>();
+  private termsByCategory = new Map<string, Set<string>>();
+  private termPattern: RegExp | null = null;
+
+  constructor(dictionaries: SynonymDictionary[]) {
+    for (const dictionary of dictionaries) {
+      for (const group of dictionary.groups) {
+        const terms = group.terms.map(normalizeTerm).filter(Boolean);
+        if (terms.length === 0) continue;
+
+        terms.forEach(term => {
+          if (!this.canonicalByTerm.has(term)) this.canonicalByTerm.set(term, terms[0]);
+        });
+
+        if (group.category) {
+          const category = normalizeTerm(group.category);
+          const categoryTerms = this.termsByCategory.get(category) ?? new Set<string>();
+          terms.forEach(term => categoryTerms.add(term));
+          this.termsByCategory.set(category, categoryTerms);
+        }
+      }
+    }
+
+    // Longest terms first so 'article number' is replaced before 'number'
+    const alternatives = [...this.canonicalByTerm.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp);
+    if (alternatives.length > 0) {
+      this.termPattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+    }
+  }
+
+  /**
+   * The vocabulary the user's enabled dictionaries describe, on top of the general pack
+   */
+  static fromDictionaries(dictionaries: SynonymDictionary[]): Vocabulary {
+    const enabled = dictionaries.filter(dictionary => dictionary.enabled);
+    const hasGeneralPack = dictionaries.some(dictionary => dictionary.id === GENERAL_PACK_ID);
+
+    return new Vocabulary(hasGeneralPack ? enabled : [...enabled, SYNONYM_PACKS[0]]);
+  }
+
+  /**
+   * Normalized text with every known term replaced by its canonical term
+   */
+  normalize(text: string): string {
+    const normalized = normalizeTerm(text);
+    if (!this.termPattern) return normalized;
+
+    return normalized.replace(this.termPattern, term => this.canonicalByTerm.get(term) ?? term);
+  }
+
+  /**
+   * Every known term per category
+   */
+  getCategories(): Record<string, string[]> {
+    return Object.fromEntries(
+      [...this.termsByCategory.entries()].map(([category, terms]) => [category, [...terms]])
+    );
+  }
+
+  /**
+   * Categories whose terms appear as whole words in the text
+   */
+  detectCategories(text: string): string[] {
+    const words = ` ${normalizeTerm(text)} `;
+
+    return [...this.termsByCategory.entries()]
+      .filter(([, terms]) => [...terms].some(term => words.includes(` ${term} `)))
+      .map(([category]) => category);
+  }
+}
+
+// Vocabulary used when callers do not pass their own
+export const DEFAULT_VOCABULARY = Vocabulary.fromDictionaries([]);
+
+/**
+ * Trim and dedupe terms, dropping groups left without any
+ */
+const cleanGroups = (groups: unknown[]): SynonymGroup[] =>
+  groups.flatMap(group => {
+    const { terms, category } = (group ?? {}) as Partial<SynonymGroup>;
+    if (!Array.isArray(terms)) return [];
+
+    const cleaned = [...new Set(terms.filter(term => typeof term === 'string').map(term => term.trim()).filter(Boolean))];
+    if (cleaned.length === 0) return [];
+
+    return [{
+      terms: cleaned,
+      category: typeof category === 'string' && category.trim() ? category.trim() : undefined,
+    }];
+  });
+
+/**
+ * Write a dictionary as JSON or as CSV with one `category,terms` row per group
+ */
+export function serializeDictionary(dictionary: SynonymDictionary, format: DictionaryFormat): string {
+  if (format === 'json') {
+    const content: DictionaryContent = {
+      name: dictionary.name,
+      domain: dictionary.domain,
+      groups: dictionary.groups,
+    };
+    return JSON.stringify(content, null, 2);
+  }
+
+  return Papa.unparse({
+    fields: ['category', 'terms'],
+    data: dictionary.groups.map(group => [group.category ?? '', group.terms.join(`${CSV_TERM_SEPARATOR} `)]),
+  });
+}
+
+/**
+ * Read a dictionary written by `serializeDictionary`. CSV files have no name of
+ * their own, so they take `fallbackName`.
+ */
+export function parseDictionary(text: string, format: DictionaryFormat, fallbackName: string): DictionaryContent {
+  if (format === 'json') {
+    let content: unknown;
+    try {
+      content = JSON.parse(text);
+    } catch {
+      throw new Error('Dictionary file is not valid JSON');
+    }
+
+    if (!content || typeof content !== 'object' || !Array.isArray((content as DictionaryContent).groups)) {
+      throw new Error('Dictionary JSON must have a "groups" array');
+    }
+
+    const { name, domain, groups } = content as DictionaryContent;
+    return {
+      name: typeof name === 'string' && name.trim() ? name.trim() : fallbackName,
+      domain: typeof domain === 'string' ? domain : undefined,
+      groups: cleanGroups(groups),
+    };
+  }
+
+  const { data } = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  const rows = data[0]?.[0]?.trim().toLowerCase() === 'category' ? data.slice(1) : data;
+
+  return {
+    name: fallbackName,
+    groups: cleanGroups(rows.map(([category, terms]) => ({
+      category,
+      terms: (terms ?? '').split(CSV_TERM_SEPARATOR),
+    }))),
+  };
+}
@@ -0,0 +1,143 @@
+import type { DataType, ProcessedFile, TargetColumn, TargetSchema } from '@/types';
+
+// Canonical target schemas: the columns merged output must have, in order
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+interface JsonSchemaProperty {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+}
+
+interface JsonSchemaObject {
+  title?: string;
+  type?: string;
+  properties?: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  items?: JsonSchemaObject; // tables are often described as arrays of row objects
+}
+
+/**
+ * Builds, converts and checks target schemas
+ */
+export class TargetSchemas {
+  /**
+   * Schema with a sample file's columns, types and order. Columns without
+   * empty cells in the sample are marked required.
+   */
+  static fromSampleFile(file: ProcessedFile): TargetSchema {
+    const { headers, columnTypes } = file.parsedData;
+
+    return {
+      name: file.name.replace(/\.[^.]+$/, ''),
+      columns: headers.map((name, index) => ({
+        name,
+        type: columnTypes[index]?.type ?? 'string',
+        required: columnTypes[index] ? columnTypes[index].nullCount === 0 : false,
+      })),
+    };
+  }
+
+  /**
+   * Schema from a JSON Schema describing one row, or an array of rows. Columns
+   * follow the order of `properties`.
+   */
+  static fromJsonSchema(text: string, fallbackName: string): TargetSchema {
+    let root: JsonSchemaObject;
+    try {
+      root = JSON.parse(text);
+    } catch {
+      throw new Error('Schema file is not valid JSON');
+    }
+
+    const rowSchema = root?.type === 'array' && root.items ? root.items : root;
+    if (!rowSchema?.properties || typeof rowSchema.properties !== 'object') {
+      throw new Error('JSON Schema must describe its columns under "properties"');
+    }
+
+    const required = new Set(Array.isArray(rowSchema.required) ? rowSchema.required : []);
+
+    return {
+      name: typeof root.title === 'string' && root.title.trim() ? root.title.trim() : fallbackName,
+      columns: Object.entries(rowSchema.properties).map(([name, property]) => ({
+        name,
+        type: this.fromJsonSchemaType(property ?? {}),
+        required: required.has(name),
+        description: typeof property?.description === 'string' ? property.description : undefined,
+      })),
+    };
+  }
+
+  /**
+   * JSON Schema for one row of the schema's output
+   */
+  static toJsonSchema(schema: TargetSchema): string {
+    const properties: Record<string, JsonSchemaProperty> = {};
+    schema.columns.forEach(column => {
+      properties[column.name] = {
+        ...this.toJsonSchemaType(column.type),
+        ...(column.description ? { description: column.description } : {}),
+      };
+    });
+
+    return JSON.stringify({
+      $schema: JSON_SCHEMA_DIALECT,
+      title: schema.name,
+      type: 'object',
+      properties,
+      required: schema.columns.filter(column => column.required).map(column => column.name),
+    }, null, 2);
+  }
+
+  /**
+   * Required columns the mapped sources leave empty, with the sources missing
+   * each. Appended rows need every source to fill a required column; joined
+   * rows need only one of them to.
+   */
+  static findMissingRequired(
+    schema: TargetSchema,
+    sources: { name: string; columns: string[] }[],
+    joined: boolean
+  ): { column: TargetColumn; missingFrom: string[] }[] {
+    return schema.columns
+      .filter(column => column.required)
+      .map(column => ({
+        column,
+        missingFrom: sources.filter(source => !source.columns.includes(column.name)).map(source => source.name),
+      }))
+      .filter(({ missingFrom }) =>
+        sources.length === 0 || missingFrom.length === sources.length || (!joined && missingFrom.length > 0)
+      );
+  }
+
+  private static fromJsonSchemaType(property: JsonSchemaProperty): DataType {
+    const types = Array.isArray(property.type) ? property.type : [property.type];
+    const type = types.find(t => t && t !== 'null');
+
+    switch (type) {
+      case 'string':
+        return property.format === 'date' || property.format === 'date-time' ? 'date' : 'string';
+      case 'number':
+      case 'integer':
+        return 'number';
+      case 'boolean':
+        return 'boolean';
+      default:
+        return 'mixed';
+    }
+  }
+
+  private static toJsonSchemaType(type: DataType): JsonSchemaProperty {
+    switch (type) {
+      case 'string':
+      case 'number':
+      case 'boolean':
+        return { type };
+      case 'date':
+        return { type: 'string', format: 'date-time' };
+      default:
+        return {}; // mixed and unknown columns accept any value
+    }
+  }
+}
@@ -2,6 +2,8 @@
  * Text processing utilities for column matching and data analysis
  */
 
+import { DEFAULT_VOCABULARY, type Vocabulary } from './synonym-dictionaries';
+
 /**
  * Calculate Levenshtein distance between two strings
  */
@@ -123,31 +125,10 @@ export function longestCommonSubsequence(str1: string, str2: string): number {
 }
 
 /**
- * Check if text contains common business terms
+ * Categories of the business terms the text contains, e.g. 'identifier' for "Order No"
  */
-export function detectBusinessTerms(text: string): string[] {
-  const businessTerms = {
-    identifier: ['id', 'key', 'code', 'ref', 'number', 'num'],
-    personal: ['name', 'firstname', 'lastname', 'fullname', 'title'],
-    contact: ['email', 'phone', 'address', 'contact', 'mobile'],
-    financial: ['price', 'cost', 'amount', 'value', 'total', 'sum', 'revenue'],
-    temporal: ['date', 'time', 'created', 'updated', 'modified', 'timestamp'],
-    status: ['status', 'state', 'active', 'enabled', 'flag', 'valid'],
-    quantity: ['count', 'quantity', 'qty', 'size', 'length', 'weight'],
-    category: ['type', 'category', 'group', 'class', 'kind', 'genre']
-  };
-  
-  const normalizedText = normalizeText(text);
-  const words = extractWords(normalizedText);
-  const detectedTerms: string[] = [];
-  
-  for (const [category, terms] of Object.entries(businessTerms)) {
-    if (terms.some(term => words.includes(term) || normalizedText.includes(term))) {
-      detectedTerms.push(category);
-    }
-  }
-  
-  return detectedTerms;
+export function detectBusinessTerms(text: string, vocabulary: Vocabulary = DEFAULT_VOCABULARY): string[] {
+  return vocabulary.detectCategories(text);
 }
 
 /**
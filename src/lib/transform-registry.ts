@@ -0,0 +1,510 @@
+import { format, isValid, parseISO } from 'date-fns';
+import { sha256Hex } from './hash-utils';
+import type { DataType, TransformType } from '@/types';
+
+/**
+ * Registry of the value transforms a column mapping can apply. Each transform
+ * declares its parameters, so the mapping UI can render a form for it, and the
+ * types it reads and produces. Teams add their own with `register`.
+ */
+
+type Cell = string | number | boolean | Date | null;
+
+export type TransformParams = Record<string, string | number | boolean>;
+
+interface ParameterBase {
+  name: string;
+  label: string;
+  description?: string;
+}
+
+export type TransformParameter =
+  | (ParameterBase & { type: 'string'; default?: string; placeholder?: string })
+  | (ParameterBase & { type: 'text'; default?: string; placeholder?: string }) // multi-line
+  | (ParameterBase & { type: 'number'; default?: number; min?: number; max?: number; step?: number })
+  | (ParameterBase & { type: 'boolean'; default?: boolean })
+  | (ParameterBase & { type: 'select'; default?: string; options: { value: string; label: string }[] });
+
+export interface TransformDefinition {
+  id: TransformType;
+  label: string;
+  description?: string;
+  parameters: TransformParameter[];
+  inputTypes: DataType[] | 'any';
+  // Type of the transformed values; `same` keeps the input's type
+  outputType: DataType | 'same' | ((inputType: DataType, params: TransformParams) => DataType);
+  // Parameter problem that would make every value fail, if any
+  validate?: (params: TransformParams) => string | null;
+  // Only called for non-empty values; params have their defaults filled in
+  apply: (value: Exclude<Cell, null>, params: TransformParams) => Cell;
+}
+
+// Salt for hashes and pseudonyms when a mapping sets none. It lasts for the
+// session, so a value gets the same token in every file of a merge.
+const SESSION_SALT = Math.random().toString(36).slice(2);
+
+/**
+ * Stable text form of a value for hashing
+ */
+const valueKey = (value: Exclude<Cell, null>): string =>
+  value instanceof Date ? value.toISOString() : String(value).trim();
+
+const toText = (value: Exclude<Cell, null>): string =>
+  value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value);
+
+const toNumber = (value: Exclude<Cell, null>): number | null => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return null;
+  const number = Number(value.trim());
+  return value.trim() !== '' && !isNaN(number) ? number : null;
+};
+
+const toDate = (value: Exclude<Cell, null>): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string') return null;
+  const date = parseISO(value.trim());
+  return isValid(date) ? date : null;
+};
+
+const BOOLEAN_WORDS: Record<string, boolean> = {
+  true: true, yes: true, y: true, '1': true,
+  false: false, no: false, n: false, '0': false,
+};
+
+const regexError = (pattern: string, flags: string): string | null => {
+  try {
+    new RegExp(pattern, flags);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+/**
+ * `from=to` pairs, one per line. Lines without `=` are ignored.
+ */
+const parseValueMap = (text: string, ignoreCase: boolean): Map<string, string> => {
+  const map = new Map<string, string>();
+  text.split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf('=');
+    if (separator === -1) return;
+    const from = line.slice(0, separator).trim();
+    map.set(ignoreCase ? from.toLowerCase() : from, line.slice(separator + 1).trim());
+  });
+  return map;
+};
+
+const BUILT_IN_TRANSFORMS: TransformDefinition[] = [
+  {
+    id: 'none',
+    label: 'None',
+    parameters: [],
+    inputTypes: 'any',
+    outputType: 'same',
+    apply: value => value,
+  },
+  {
+    id: 'uppercase',
+    label: 'Uppercase',
+    parameters: [],
+    inputTypes: ['string', 'mixed', 'unknown'],
+    outputType: 'string',
+    apply: value => String(value).toUpperCase(),
+  },
+  {
+    id: 'lowercase',
+    label: 'Lowercase',
+    parameters: [],
+    inputTypes: ['string', 'mixed', 'unknown'],
+    outputType: 'string',
+    apply: value => String(value).toLowerCase(),
+  },
+  {
+    id: 'trim',
+    label: 'Trim',
+    description: 'Remove surrounding whitespace',
+    parameters: [
+      {
+        name: 'side',
+        label: 'Side',
+        type: 'select',
+        default: 'both',
+        options: [
+          { value: 'both', label: 'Both ends' },
+          { value: 'start', label: 'Start' },
+          { value: 'end', label: 'End' },
+        ],
+      },
+      { name: 'collapse', label: 'Collapse inner spaces', type: 'boolean', default: false },
+    ],
+    inputTypes: ['string', 'mixed', 'unknown'],
+    outputType: 'string',
+    apply: (value, params) => {
+      let text = String(value);
+      text = params.side === 'start' ? text.trimStart() : params.side === 'end' ? text.trimEnd() : text.trim();
+      return params.collapse ? text.replace(/\s+/g, ' ') : text;
+    },
+  },
+  {
+    id: 'regex_replace',
+    label: 'Regex Replace',
+    description: 'Replace every match of a pattern; $1 inserts a captured group',
+    parameters: [
+      { name: 'pattern', label: 'Pattern', type: 'string', default: '', placeholder: '\\s+' },
+      { name: 'replacement', label: 'Replacement', type: 'string', default: '' },
+      { name: 'ignoreCase', label: 'Ignore case', type: 'boolean', default: false },
+    ],
+    inputTypes: 'any',
+    outputType: 'string',
+    validate: params => params.pattern
+      ? regexError(String(params.pattern), params.ignoreCase ? 'gi' : 'g')
+      : 'Enter a pattern',
+    apply: (value, params) => toText(value).replace(
+      new RegExp(String(params.pattern), params.ignoreCase ? 'gi' : 'g'),
+      String(params.replacement)
+    ),
+  },
+  {
+    id: 'pad',
+    label: 'Pad',
+    description: 'Pad to a minimum length, e.g. zip codes to 5 digits',
+    parameters: [
+      { name: 'length', label: 'Length', type: 'number', default: 5, min: 1 },
+      { name: 'character', label: 'Character', type: 'string', default: '0' },
+      {
+        name: 'side',
+        label: 'Side',
+        type: 'select',
+        default: 'start',
+        options: [
+          { value: 'start', label: 'Start' },
+          { value: 'end', label: 'End' },
+        ],
+      },
+    ],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => {
+      const length = Number(params.length);
+      const character = String(params.character) || ' ';
+      return params.side === 'end'
+        ? toText(value).padEnd(length, character)
+        : toText(value).padStart(length, character);
+    },
+  },
+  {
+    id: 'substring',
+    label: 'Substring',
+    description: 'Part of the text, counting from 1',
+    parameters: [
+      { name: 'start', label: 'Start', type: 'number', default: 1, min: 1 },
+      { name: 'length', label: 'Length', type: 'number', default: 0, min: 0, description: '0 keeps the rest' },
+    ],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => {
+      const start = Math.max(1, Number(params.start)) - 1;
+      const length = Number(params.length);
+      const text = toText(value);
+      return length > 0 ? text.slice(start, start + length) : text.slice(start);
+    },
+  },
+  {
+    id: 'round',
+    label: 'Round',
+    parameters: [
+      { name: 'decimals', label: 'Decimals', type: 'number', default: 0, min: 0, max: 10 },
+      {
+        name: 'mode',
+        label: 'Mode',
+        type: 'select',
+        default: 'nearest',
+        options: [
+          { value: 'nearest', label: 'Nearest' },
+          { value: 'down', label: 'Down' },
+          { value: 'up', label: 'Up' },
+        ],
+      },
+    ],
+    inputTypes: ['number', 'string', 'mixed', 'unknown'],
+    outputType: 'number',
+    apply: (value, params) => {
+      const number = toNumber(value);
+      if (number === null) return value;
+      const factor = 10 ** Number(params.decimals);
+      const round = params.mode === 'down' ? Math.floor : params.mode === 'up' ? Math.ceil : Math.round;
+      return round(number * factor) / factor;
+    },
+  },
+  {
+    id: 'scale',
+    label: 'Scale',
+    description: 'value × factor + offset, e.g. cents to dollars',
+    parameters: [
+      { name: 'factor', label: 'Factor', type: 'number', default: 1, step: 0.01 },
+      { name: 'offset', label: 'Offset', type: 'number', default: 0 },
+    ],
+    inputTypes: ['number', 'string', 'mixed', 'unknown'],
+    outputType: 'number',
+    apply: (value, params) => {
+      const number = toNumber(value);
+      return number === null ? value : number * Number(params.factor) + Number(params.offset);
+    },
+  },
+  {
+    id: 'cast',
+    label: 'Cast',
+    description: 'Convert to another type; values that do not convert become empty',
+    parameters: [
+      {
+        name: 'to',
+        label: 'To',
+        type: 'select',
+        default: 'string',
+        options: [
+          { value: 'string', label: 'Text' },
+          { value: 'number', label: 'Number' },
+          { value: 'boolean', label: 'Boolean' },
+          { value: 'date', label: 'Date' },
+        ],
+      },
+    ],
+    inputTypes: 'any',
+    outputType: (_, params) => params.to as DataType,
+    apply: (value, params) => {
+      switch (params.to) {
+        case 'number':
+          return toNumber(value);
+        case 'boolean':
+          return typeof value === 'boolean' ? value : BOOLEAN_WORDS[toText(value).trim().toLowerCase()] ?? null;
+        case 'date':
+          return toDate(value);
+        default:
+          return toText(value);
+      }
+    },
+  },
+  {
+    id: 'map_values',
+    label: 'Map Values',
+    description: 'Replace listed values, e.g. M=Male',
+    parameters: [
+      { name: 'mapping', label: 'Mapping', type: 'text', default: '', placeholder: 'M=Male\nF=Female' },
+      { name: 'ignoreCase', label: 'Ignore case', type: 'boolean', default: true },
+      {
+        name: 'otherwise',
+        label: 'Other values',
+        type: 'select',
+        default: 'keep',
+        options: [
+          { value: 'keep', label: 'Keep' },
+          { value: 'empty', label: 'Make empty' },
+        ],
+      },
+    ],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => {
+      const ignoreCase = Boolean(params.ignoreCase);
+      const map = parseValueMap(String(params.mapping), ignoreCase);
+      const key = toText(value).trim();
+      const mapped = map.get(ignoreCase ? key.toLowerCase() : key);
+      if (mapped !== undefined) return mapped;
+      return params.otherwise === 'empty' ? null : value;
+    },
+  },
+  {
+    id: 'date_format',
+    label: 'Date Format',
+    parameters: [{ name: 'format', label: 'Format', type: 'string', default: 'yyyy-MM-dd' }],
+    inputTypes: ['date', 'string', 'mixed', 'unknown'],
+    outputType: 'string',
+    apply: (value, params) => {
+      const formatString = String(params.format) || 'yyyy-MM-dd';
+      if (value instanceof Date) return format(value, formatString);
+      if (typeof value === 'string') {
+        const date = parseISO(value);
+        return isValid(date) ? format(date, formatString) : value;
+      }
+      return String(value);
+    },
+  },
+  {
+    id: 'number_format',
+    label: 'Number Format',
+    parameters: [{ name: 'decimals', label: 'Decimals', type: 'number', default: 2, min: 0, max: 10 }],
+    inputTypes: ['number', 'string', 'mixed', 'unknown'],
+    outputType: 'number',
+    apply: (value, params) => {
+      const number = typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+      return isNaN(number) ? value : Number(number.toFixed(Number(params.decimals)));
+    },
+  },
+  {
+    id: 'redact',
+    label: 'Redact',
+    parameters: [{ name: 'replacement', label: 'Replacement', type: 'string', default: '[REDACTED]' }],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (_, params) => String(params.replacement),
+  },
+  {
+    id: 'mask',
+    label: 'Partial Mask',
+    description: 'Hide all but the last few letters and digits, keeping separators',
+    parameters: [{ name: 'keepLast', label: 'Keep last', type: 'number', default: 4, min: 0 }],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => {
+      const text = value instanceof Date ? value.toISOString() : String(value);
+      const keepLast = Number(params.keepLast);
+      const total = text.replace(/[^\p{L}\p{N}]/gu, '').length;
+      let seen = 0;
+      return text.replace(/[\p{L}\p{N}]/gu, char => ++seen > total - keepLast ? char : '*');
+    },
+  },
+  {
+    id: 'hash',
+    label: 'Salted Hash',
+    parameters: [{ name: 'salt', label: 'Salt', type: 'string', description: 'Leave empty for a per-session salt' }],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => sha256Hex(String(params.salt || SESSION_SALT) + valueKey(value)),
+  },
+  {
+    id: 'pseudonymize',
+    label: 'Pseudonymise',
+    description: 'Equal inputs always get the same token, so joins and counts still work',
+    parameters: [
+      { name: 'prefix', label: 'Prefix', type: 'string', default: 'ID' },
+      { name: 'salt', label: 'Salt', type: 'string', description: 'Leave empty for a per-session salt' },
+    ],
+    inputTypes: 'any',
+    outputType: 'string',
+    apply: (value, params) => {
+      const token = sha256Hex(String(params.salt || SESSION_SALT) + valueKey(value)).slice(0, 12).toUpperCase();
+      return `${params.prefix || 'ID'}-${token}`;
+    },
+  },
+  {
+    id: 'generalize_date',
+    label: 'Generalise Date',
+    parameters: [
+      {
+        name: 'granularity',
+        label: 'Keep',
+        type: 'select',
+        default: 'month',
+        options: [
+          { value: 'month', label: 'Month' },
+          { value: 'quarter', label: 'Quarter' },
+          { value: 'year', label: 'Year' },
+        ],
+      },
+    ],
+    inputTypes: ['date', 'string', 'mixed', 'unknown'],
+    outputType: 'string',
+    apply: (value, params) => {
+      const date = toDate(value);
+      if (!date) return value;
+
+      switch (params.granularity) {
+        case 'year':
+          return format(date, 'yyyy');
+        case 'quarter':
+          return format(date, "yyyy-'Q'Q");
+        default:
+          return format(date, 'yyyy-MM');
+      }
+    },
+  },
+];
+
+/**
+ * The transforms available to column mappings, in registration order
+ */
+export class TransformRegistry {
+  private static transforms = new Map<string, TransformDefinition>(
+    BUILT_IN_TRANSFORMS.map(transform => [transform.id, transform])
+  );
+
+  /**
+   * Add a transform. Ids are unique; unregister one first to replace it.
+   */
+  static register(transform: TransformDefinition): void {
+    if (this.transforms.has(transform.id)) {
+      throw new Error(`A transform with id "${transform.id}" is already registered`);
+    }
+    this.transforms.set(transform.id, transform);
+  }
+
+  static unregister(id: string): void {
+    this.transforms.delete(id);
+  }
+
+  static get(id: string): TransformDefinition | undefined {
+    return this.transforms.get(id);
+  }
+
+  static list(): TransformDefinition[] {
+    return Array.from(this.transforms.values());
+  }
+
+  /**
+   * Transforms that read values of a column type. Columns of unclear type can
+   * use every transform.
+   */
+  static listFor(inputType?: DataType): TransformDefinition[] {
+    return this.list().filter(transform =>
+      !inputType ||
+      inputType === 'mixed' ||
+      inputType === 'unknown' ||
+      transform.inputTypes === 'any' ||
+      transform.inputTypes.includes(inputType)
+    );
+  }
+
+  /**
+   * Parameters with defaults for the ones that are not set
+   */
+  static resolveParams(transform: TransformDefinition, params: TransformParams = {}): TransformParams {
+    const resolved: TransformParams = {};
+    transform.parameters.forEach(parameter => {
+      const value = params[parameter.name] ?? parameter.default;
+      if (value !== undefined) resolved[parameter.name] = value;
+    });
+    return { ...params, ...resolved };
+  }
+
+  /**
+   * Parameter problem of a transform, e.g. a pattern that does not compile
+   */
+  static validate(id: string, params?: TransformParams): string | null {
+    const transform = this.get(id);
+    if (!transform) return `Transform "${id}" is not registered`;
+    return transform.validate?.(this.resolveParams(transform, params)) ?? null;
+  }
+
+  /**
+   * Type of a column after the transform
+   */
+  static getOutputType(id: string, inputType: DataType, params?: TransformParams): DataType {
+    const transform = this.get(id);
+    if (!transform || transform.outputType === 'same') return inputType;
+    return typeof transform.outputType === 'function'
+      ? transform.outputType(inputType, this.resolveParams(transform, params))
+      : transform.outputType;
+  }
+
+  /**
+   * Apply a transform to one value. Empty values stay empty; throws for
+   * transforms that are not registered.
+   */
+  static apply(id: string, value: Cell, params?: TransformParams): Cell {
+    const transform = this.get(id);
+    if (!transform) throw new Error(`Transform "${id}" is not registered`);
+    if (value === null) return null;
+    return transform.apply(value, this.resolveParams(transform, params));
+  }
+}
@@ -0,0 +1,199 @@
+import type {
+  ComparisonOperator,
+  ParsedData,
+  RuleResult,
+  RuleViolation,
+  ValidationRule,
+  ValidationRuleKind
+} from '@/types';
+
+// Declarative validation rules engine
+
+type Cell = string | number | boolean | Date | null;
+
+// Failing rows listed per rule
+const MAX_EXAMPLES = 5;
+
+export const RULE_KIND_LABELS: Record<ValidationRuleKind, string> = {
+  not_null: 'Not empty',
+  unique: 'Unique',
+  regex: 'Matches pattern',
+  range: 'Within range',
+  allowed_values: 'Allowed values',
+  not_in_future: 'Not in the future',
+  compare: 'Compared to column',
+};
+
+/**
+ * Runs per-column expectations against parsed data and collects the rows that fail them
+ */
+export class RuleEngine {
+  /**
+   * Run every rule against a dataset
+   */
+  static runRules(parsedData: ParsedData, rules: ValidationRule[], now = new Date()): RuleResult[] {
+    return rules.map(rule => this.runRule(parsedData, rule, now));
+  }
+
+  /**
+   * Run a single rule, reporting a failure count and the first failing rows
+   */
+  static runRule(parsedData: ParsedData, rule: ValidationRule, now = new Date()): RuleResult {
+    const { headers, rows } = parsedData;
+    const result: RuleResult = { rule, checkedRows: rows.length, violationCount: 0, examples: [] };
+
+    const index = headers.indexOf(rule.column);
+    if (index === -1) {
+      return { ...result, error: `Column "${rule.column}" not found` };
+    }
+
+    let check: (row: Cell[]) => boolean;
+    try {
+      check = this.buildCheck(rule, index, headers, rows, now);
+    } catch (error) {
+      return { ...result, error: error instanceof Error ? error.message : 'Invalid rule' };
+    }
+
+    const examples: RuleViolation[] = [];
+    let violationCount = 0;
+
+    rows.forEach((row, rowIndex) => {
+      if (check(row)) return;
+
+      violationCount++;
+      if (examples.length < MAX_EXAMPLES) {
+        examples.push({ row: rowIndex + 1, value: this.formatValue(row[index]) });
+      }
+    });
+
+    return { ...result, violationCount, examples };
+  }
+
+  /**
+   * Human-readable form of a rule, e.g. `Amount between 0 and 100`
+   */
+  static describeRule(rule: ValidationRule): string {
+    switch (rule.kind) {
+      case 'not_null':
+        return `${rule.column} is not empty`;
+      case 'unique':
+        return `${rule.column} is unique`;
+      case 'regex':
+        return `${rule.column} matches /${rule.pattern}/${rule.flags ?? ''}`;
+      case 'range':
+        if (rule.min !== undefined && rule.max !== undefined) {
+          return `${rule.column} between ${rule.min} and ${rule.max}`;
+        }
+        return rule.min !== undefined
+          ? `${rule.column} >= ${rule.min}`
+          : `${rule.column} <= ${rule.max}`;
+      case 'allowed_values':
+        return `${rule.column} is one of ${rule.values.join(', ')}`;
+      case 'not_in_future':
+        return `${rule.column} is not in the future`;
+      case 'compare':
+        return `${rule.column} ${rule.operator} ${rule.otherColumn}`;
+    }
+  }
+
+  /**
+   * Row predicate for a rule; empty cells only fail `not_null`
+   */
+  private static buildCheck(
+    rule: ValidationRule,
+    index: number,
+    headers: string[],
+    rows: Cell[][],
+    now: Date
+  ): (row: Cell[]) => boolean {
+    const optional = (test: (value: Exclude<Cell, null>) => boolean) => (row: Cell[]) => {
+      const value = row[index];
+      return this.isEmpty(value) || test(value as Exclude<Cell, null>);
+    };
+
+    switch (rule.kind) {
+      case 'not_null':
+        return row => !this.isEmpty(row[index]);
+
+      case 'unique': {
+        const counts = new Map<string, number>();
+        rows.forEach(row => {
+          if (this.isEmpty(row[index])) return;
+          const key = this.formatValue(row[index]);
+          counts.set(key, (counts.get(key) || 0) + 1);
+        });
+        return optional(value => counts.get(this.formatValue(value)) === 1);
+      }
+
+      case 'regex': {
+        // A global or sticky pattern keeps lastIndex between rows, so those flags are dropped
+        const pattern = new RegExp(rule.pattern, rule.flags?.replace(/[gy]/g, ''));
+        return optional(value => pattern.test(this.formatValue(value)));
+      }
+
+      case 'range':
+        return optional(value => {
+          const number = typeof value === 'number' ? value : Number(value);
+          if (isNaN(number)) return false;
+          return (rule.min === undefined || number >= rule.min) && (rule.max === undefined || number <= rule.max);
+        });
+
+      case 'allowed_values': {
+        const normalize = (text: string) => rule.caseSensitive ? text : text.toLowerCase();
+        const allowed = new Set(rule.values.map(value => normalize(value.trim())));
+        return optional(value => allowed.has(normalize(this.formatValue(value).trim())));
+      }
+
+      case 'not_in_future':
+        return optional(value => value instanceof Date && value.getTime() <= now.getTime());
+
+      case 'compare': {
+        const otherIndex = headers.indexOf(rule.otherColumn);
+        if (otherIndex === -1) {
+          throw new Error(`Column "${rule.otherColumn}" not found`);
+        }
+        return row => {
+          const [left, right] = [row[index], row[otherIndex]];
+          if (this.isEmpty(left) || this.isEmpty(right)) return true;
+          return this.compare(left as Exclude<Cell, null>, right as Exclude<Cell, null>, rule.operator);
+        };
+      }
+    }
+  }
+
+  /**
+   * Compare two cells as dates, numbers or text, whichever both sides share
+   */
+  private static compare(
+    left: Exclude<Cell, null>,
+    right: Exclude<Cell, null>,
+    operator: ComparisonOperator
+  ): boolean {
+    let difference: number;
+    if (left instanceof Date && right instanceof Date) {
+      difference = left.getTime() - right.getTime();
+    } else if (typeof left === 'number' && typeof right === 'number') {
+      difference = left - right;
+    } else {
+      difference = this.formatValue(left).localeCompare(this.formatValue(right));
+    }
+
+    switch (operator) {
+      case '=': return difference === 0;
+      case '!=': return difference !== 0;
+      case '<': return difference < 0;
+      case '<=': return difference <= 0;
+      case '>': return difference > 0;
+      case '>=': return difference >= 0;
+    }
+  }
+
+  private static isEmpty(value: Cell | undefined): boolean {
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+  }
+
+  private static formatValue(value: Cell | undefined): string {
+    if (value === null || value === undefined) return '';
+    return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
@@ -0,0 +1,23 @@
+import { DataProfiler } from '@/lib/data-profiling';
+import type { ProfileWorkerRequest, ProfileWorkerResponse } from '@/lib/profile-worker';
+
+/**
+ * Web Worker entry point that profiles the columns of a parsed dataset
+ */
+
+const respond = (message: ProfileWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = (event: MessageEvent<ProfileWorkerRequest>) => {
+  const { parsedData, sheetName } = event.data;
+  
+  try {
+    respond({ type: 'result', profile: DataProfiler.profileData(parsedData, sheetName) });
+  } catch (error) {
+    respond({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+};
@@ -0,0 +1,27 @@
+import { parseFileData } from '@/lib/file-utils';
+import type { ParseWorkerRequest, ParseWorkerResponse } from '@/lib/file-worker';
+
+/**
+ * Web Worker entry point that parses a single file and streams progress back
+ */
+
+const respond = (message: ParseWorkerResponse) => {
+  self.postMessage(message);
+};
+
+self.onmessage = async (event: MessageEvent<ParseWorkerRequest>) => {
+  const { file, options } = event.data;
+  
+  try {
+    const content = await parseFileData(file, options, (progress) => {
+      respond({ type: 'progress', progress });
+    });
+    
+    respond({ type: 'result', content });
+  } catch (error) {
+    respond({
+      type: 'error',
+      error: error instanceof Error ? error.message : 'Unknown error occurred',
+    });
+  }
+};
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
+import { MappingMemory, type MappingDecisionInput } from '@/lib/mapping-memory';
 import type {
   AppState,
   ProcessedFile,
@@ -7,7 +8,11 @@ import type {
   ProcessedDataset,
   ChartConfig,
   InsightSuggestion,
-  ExportJob
+  ExportJob,
+  ValidationRule,
+  SynonymDictionary,
+  MappingTemplate,
+  TargetSchema
 } from '@/types';
 
 interface AppStore extends AppState {
@@ -28,6 +33,25 @@ interface AppStore extends AppState {
   removeDataset: (datasetId: string) => void;
   selectDataset: (datasetId: string) => void;
   
+  // Validation rule actions
+  setValidationRules: (datasetName: string, rules: ValidationRule[]) => void;
+  
+  // Synonym dictionary actions
+  addSynonymDictionary: (dictionary: SynonymDictionary) => void;
+  updateSynonymDictionary: (dictionaryId: string, updates: Partial<SynonymDictionary>) => void;
+  removeSynonymDictionary: (dictionaryId: string) => void;
+  
+  // Mapping memory actions
+  recordMappingDecisions: (decisions: MappingDecisionInput[]) => void;
+  clearMappingMemory: () => void;
+  
+  // Mapping template actions
+  saveMappingTemplate: (template: MappingTemplate) => void;
+  removeMappingTemplate: (templateId: string) => void;
+  
+  // Target schema actions
+  setTargetSchema: (schema: TargetSchema | undefined) => void;
+  
   // Visualization actions
   addChart: (chart: ChartConfig) => void;
   updateChart: (chartId: string, updates: Partial<ChartConfig>) => void;
@@ -60,6 +84,11 @@ const initialState: AppState = {
   files: [],
   mappings: [],
   datasets: [],
+  validationRules: {},
+  synonymDictionaries: [],
+  mappingMemory: [],
+  mappingTemplates: [],
+  targetSchema: undefined,
   charts: [],
   insights: [],
   exportJobs: [],
@@ -138,6 +167,57 @@ export const useAppStore = create<AppStore>()(
         selectDataset: (datasetId) =>
           set({ selectedDataset: datasetId }, false, 'selectDataset'),
 
+        // Validation rules
+        setValidationRules: (datasetName, rules) =>
+          set((state) => ({
+            validationRules: { ...state.validationRules, [datasetName]: rules },
+          }), false, 'setValidationRules'),
+
+        // Synonym dictionaries
+        addSynonymDictionary: (dictionary) =>
+          set((state) => ({
+            synonymDictionaries: [...state.synonymDictionaries, dictionary],
+          }), false, 'addSynonymDictionary'),
+
+        updateSynonymDictionary: (dictionaryId, updates) =>
+          set((state) => ({
+            synonymDictionaries: state.synonymDictionaries.map((dictionary) =>
+              dictionary.id === dictionaryId ? { ...dictionary, ...updates } : dictionary
+            ),
+          }), false, 'updateSynonymDictionary'),
+
+        removeSynonymDictionary: (dictionaryId) =>
+          set((state) => ({
+            synonymDictionaries: state.synonymDictionaries.filter((dictionary) => dictionary.id !== dictionaryId),
+          }), false, 'removeSynonymDictionary'),
+
+        // Mapping memory
+        recordMappingDecisions: (decisions) =>
+          set((state) => ({
+            mappingMemory: MappingMemory.record(state.mappingMemory, decisions),
+          }), false, 'recordMappingDecisions'),
+
+        clearMappingMemory: () =>
+          set({ mappingMemory: [] }, false, 'clearMappingMemory'),
+
+        // Mapping templates; saving under an existing name replaces that template
+        saveMappingTemplate: (template) =>
+          set((state) => ({
+            mappingTemplates: [
+              ...state.mappingTemplates.filter((t) => t.id !== template.id && t.name !== template.name),
+              template,
+            ],
+          }), false, 'saveMappingTemplate'),
+
+        removeMappingTemplate: (templateId) =>
+          set((state) => ({
+            mappingTemplates: state.mappingTemplates.filter((template) => template.id !== templateId),
+          }), false, 'removeMappingTemplate'),
+
+        // Target schema
+        setTargetSchema: (schema) =>
+          set({ targetSchema: schema }, false, 'setTargetSchema'),
+
         // Visualization management
         addChart: (chart) =>
           set((state) => ({
@@ -226,9 +306,15 @@ export const useAppStore = create<AppStore>()(
         name: 'data-bridge-store',
         partialize: (state) => ({
           // Only persist essential data, not UI state
-          files: state.files,
+          // Workbook sheets are full parsed copies; only the exposed sheet survives a reload
+          files: state.files.map((file) => ({ ...file, sheets: undefined })),
           mappings: state.mappings,
           datasets: state.datasets,
+          validationRules: state.validationRules,
+          synonymDictionaries: state.synonymDictionaries,
+          mappingMemory: state.mappingMemory,
+          mappingTemplates: state.mappingTemplates,
+          targetSchema: state.targetSchema,
           charts: state.charts,
           currentStep: state.currentStep,
         }),
@@ -244,6 +330,11 @@ export const useAppStore = create<AppStore>()(
 export const useFiles = () => useAppStore((state) => state.files);
 export const useSelectedFiles = () => useAppStore((state) => state.selectedFiles);
 export const useDatasets = () => useAppStore((state) => state.datasets);
+export const useValidationRules = () => useAppStore((state) => state.validationRules);
+export const useSynonymDictionaries = () => useAppStore((state) => state.synonymDictionaries);
+export const useMappingMemory = () => useAppStore((state) => state.mappingMemory);
+export const useMappingTemplates = () => useAppStore((state) => state.mappingTemplates);
+export const useTargetSchema = () => useAppStore((state) => state.targetSchema);
 export const useSelectedDataset = () => useAppStore((state) => state.selectedDataset);
 export const useCharts = () => useAppStore((state) => state.charts);
 export const useCurrentStep = () => useAppStore((state) => state.currentStep);
@@ -15,9 +15,15 @@ export interface UploadedFile {
 // Data structure types
 export interface ParsedData {
   headers: string[];
-  rows: (string | number | Date | null)[][];
+  rows: (string | number | boolean | Date | null)[][];
   rowCount: number;
   columnTypes: ColumnType[];
+  headerRows?: number; // rows combined into the header, 0 when generated
+}
+
+export interface SheetData {
+  name: string;
+  parsedData: ParsedData;
 }
 
 export interface ProcessedFile extends UploadedFile {
@@ -25,6 +31,11 @@ export interface ProcessedFile extends UploadedFile {
   encoding?: string;
   delimiter?: string;
   hasHeader: boolean;
+  sheets?: SheetData[]; // every sheet of an Excel workbook
+  sheetName?: string; // sheet currently exposed as parsedData
+  columnBoundaries?: number[]; // fixed-width column start offsets
+  parseOptions?: FileParseOptions; // options chosen for the last parse, reused on re-parse
+  profile?: DataProfile; // cached column profile, cleared whenever the data changes
 }
 
 // Column and data type detection
@@ -34,33 +45,270 @@ export interface ColumnType {
   name: string;
   type: DataType;
   confidence: number; // 0-1 confidence score for auto-detection
-  samples: (string | number | Date | null)[];
+  samples: (string | number | boolean | Date | null)[];
   nullCount: number;
   uniqueCount: number;
+  numberFormat?: NumberFormat; // how formatted numbers in the source were written
+  dateFormat?: DateFormat; // pattern the column's dates were read with
+  semanticType?: SemanticType; // what the values represent, detected from content
+}
+
+export type SemanticType = 
+  | 'email' 
+  | 'url' 
+  | 'phone' 
+  | 'postal_code' 
+  | 'country_code' 
+  | 'currency_amount' 
+  | 'uuid' 
+  | 'integer_id';
+
+export interface DateFormat {
+  pattern: string; // e.g. 'dd/MM/yyyy', see DATE_PATTERNS
+  ambiguous?: boolean; // other patterns read the same values as different dates
+  alternatives?: string[];
+}
+
+export type NumberUnit = 'currency' | 'percent';
+
+export interface NumberFormat {
+  locale: string; // separator convention, e.g. 'de-DE' for 1.234,56
+  unit?: NumberUnit;
+  currency?: string; // ISO code when unit is 'currency'
+}
+
+// Column profiling types
+export interface HistogramBin {
+  start: number; // numbers, text lengths or date timestamps
+  end: number;
+  count: number;
+}
+
+export interface ValueFrequency {
+  value: string;
+  count: number;
+}
+
+export interface NumberStats {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  quantiles: { p5: number; p25: number; p75: number; p95: number };
+}
+
+export interface TextStats {
+  minLength: number;
+  maxLength: number;
+  meanLength: number;
+  lengthHistogram: HistogramBin[];
+}
+
+export interface DateGap {
+  from: number; // timestamps, so profiles survive persistence
+  to: number;
+  days: number;
+}
+
+export interface DateStats {
+  min: number;
+  max: number;
+  typicalStepDays: number; // median spacing between consecutive distinct dates
+  gaps: DateGap[]; // spans much longer than the typical step, largest first
+}
+
+export interface ColumnProfile {
+  name: string;
+  type: DataType;
+  count: number; // non-null values
+  nullCount: number;
+  uniqueCount: number;
+  topValues: ValueFrequency[];
+  histogram: HistogramBin[]; // numbers and dates
+  numberStats?: NumberStats;
+  textStats?: TextStats;
+  dateStats?: DateStats;
+}
+
+export interface DataProfile {
+  sheetName?: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+  createdAt: number;
 }
 
 export interface ColumnSuggestion {
   sourceColumn: string;
   targetColumn: string;
   similarity: number; // 0-1 similarity score
-  matchType: 'exact' | 'fuzzy' | 'semantic' | 'none';
+  matchType: 'exact' | 'fuzzy' | 'semantic' | 'content' | 'memory' | 'none';
+}
+
+// Mapping memory types
+export interface MappingDecision {
+  sourceColumn: string;
+  targetColumn: string;
+  accepted: boolean; // false when the suggestion was corrected or removed
+  fileName?: string; // file the source column came from
+  count: number; // times this pair was decided the same way in a row
+  decidedAt: number;
+}
+
+// One-to-one column assignment types
+export interface AssignmentAlternative {
+  suggestion: ColumnSuggestion;
+  margin: number; // how far below the chosen match it scored, 0-1
+  assignedTo?: string; // source column that took this target instead
+}
+
+export interface ColumnAssignment {
+  sourceColumn: string;
+  match: ColumnSuggestion;
+  alternatives: AssignmentAlternative[]; // runner-up targets, best first
+}
+
+// Synonym dictionary types
+export interface SynonymGroup {
+  terms: string[]; // interchangeable terms, the first is the canonical one
+  category?: string; // broader concept shared by related groups, e.g. 'identifier'
+}
+
+export interface SynonymDictionary {
+  id: string;
+  name: string;
+  domain?: string;
+  enabled: boolean;
+  groups: SynonymGroup[];
+}
+
+// PII detection types
+export type PiiType = 'email' | 'phone' | 'national_id' | 'iban' | 'credit_card' | 'name' | 'address';
+
+export interface PiiFinding {
+  column: string;
+  type: PiiType;
+  matchCount: number; // sampled values that look like this kind of personal data
+  sampleSize: number;
 }
 
 // Column mapping types
+export type BuiltInTransformType =
+  | 'none'
+  | 'uppercase'
+  | 'lowercase'
+  | 'trim'
+  | 'regex_replace'
+  | 'pad'
+  | 'substring'
+  | 'round'
+  | 'scale'
+  | 'cast'
+  | 'map_values'
+  | 'date_format'
+  | 'number_format'
+  | 'redact'
+  | 'mask'
+  | 'hash'
+  | 'pseudonymize'
+  | 'generalize_date';
+
+// Id of a transform in the TransformRegistry; teams can register their own
+export type TransformType = BuiltInTransformType | (string & {});
+
+// How several source columns become one value
+export type ColumnCombine =
+  | { kind: 'concat'; separator: string }
+  | { kind: 'coalesce' }; // first non-empty value
+
+// How one source value becomes several; regex capture groups fill targets in order
+export type ColumnSplit =
+  | { kind: 'delimiter'; delimiter: string }
+  | { kind: 'regex'; pattern: string; flags?: string };
+
 export interface ColumnMapping {
   id: string;
   sourceFileId: string;
   targetFileId?: string; // for joins
   mappings: {
     sourceColumn: string;
+    sourceColumns?: string[]; // further sources combined with sourceColumn, in order
+    combine?: ColumnCombine;
     targetColumn: string;
-    transform?: 'none' | 'uppercase' | 'lowercase' | 'date_format' | 'number_format';
+    targetColumns?: string[]; // further targets the split fills after targetColumn
+    split?: ColumnSplit;
+    transform?: TransformType;
     transformParams?: Record<string, string | number | boolean>;
   }[];
+  derivedColumns?: DerivedColumn[]; // computed after the column mappings, in order
   joinType?: 'inner' | 'left' | 'right' | 'full';
   joinKey?: string;
 }
 
+// Computed target column; the expression may reference the file's source
+// columns and derived columns defined before it
+export interface DerivedColumn {
+  targetColumn: string;
+  expression: string;
+}
+
+// Target schema types
+export interface TargetColumn {
+  name: string;
+  type: DataType;
+  required: boolean;
+  description?: string;
+}
+
+export interface TargetSchema {
+  name: string;
+  columns: TargetColumn[]; // in output order
+}
+
+// Mapping template types
+export interface MappingTemplate {
+  id: string;
+  name: string;
+  headers: string[]; // source headers the template was saved from
+  mappings: ColumnMapping['mappings'];
+  createdAt: number;
+}
+
+export interface TemplateDrift {
+  newColumns: string[]; // in the upload but not the template
+  missingColumns: string[]; // in the template but not the upload
+  renamedColumns: { from: string; to: string }[];
+}
+
+export interface TemplateMatch {
+  template: MappingTemplate;
+  score: number; // 0-1 share of headers the upload and template have in common
+  drift: TemplateDrift;
+}
+
+// Join key analysis types
+export type KeyRelationship = '1:1' | '1:N' | 'N:1' | 'N:M';
+
+export interface KeySideStats {
+  fileId: string;
+  fileName: string;
+  column: string;
+  rowCount: number;
+  distinctCount: number;
+  nullCount: number; // rows with no key, which can never match
+  duplicateKeyCount: number; // keys that appear on more than one row
+  orphanCount: number; // distinct keys missing from the other side
+  orphanExamples: string[];
+}
+
+export interface KeyOverlapAnalysis {
+  left: KeySideStats;
+  right: KeySideStats;
+  matchedKeys: number;
+  overlapPercentage: number; // matched keys as a share of all distinct keys, 0-100
+  relationship: KeyRelationship;
+}
+
 // Processed dataset types
 export interface ProcessedDataset {
   id: string;
@@ -137,7 +385,12 @@ export interface AppState {
   // Data processing
   mappings: ColumnMapping[];
   datasets: ProcessedDataset[];
-  
+  validationRules: Record<string, ValidationRule[]>; // keyed by dataset name
+  synonymDictionaries: SynonymDictionary[];
+  mappingMemory: MappingDecision[];
+  mappingTemplates: MappingTemplate[];
+  targetSchema?: TargetSchema; // output contract; all uploaded headers when unset
+
   // Visualization
   charts: ChartConfig[];
   insights: InsightSuggestion[];
@@ -171,9 +424,65 @@ export interface ValidationResult {
 export interface FileParseOptions {
   delimiter?: string;
   hasHeader?: boolean;
+  headerRows?: number; // rows stacked into the header, detected when omitted
   encoding?: string;
-  skipRows?: number;
+  numberLocale?: string; // separator convention for numbers, voted per column when omitted
+  datePatterns?: Record<string, string | null>; // per-column date pattern overrides, null for not a date
+  skipRows?: number; // leading rows dropped before the header
   maxRows?: number;
+  sheetName?: string;
+  recordPath?: string; // JSON: dotted path to the array of records
+  arrayPolicy?: 'explode' | 'stringify'; // JSON: how nested arrays become rows
+  columnBoundaries?: number[]; // fixed-width: column start offsets, inferred when omitted
+  fixes?: DataFix[]; // cleanup fixes re-applied in order after every parse
+}
+
+// Cleanup fixes offered by validation
+export type DataFix =
+  | { type: 'rename_duplicate_headers' }
+  | { type: 'name_empty_headers' }
+  | { type: 'trim_whitespace' } // every text cell; tidy cells are unchanged
+  | { type: 'drop_empty_rows' }
+  | { type: 'drop_empty_columns' }
+  | { type: 'normalize_casing'; column: string };
+
+// Validation rule types
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type ValidationRule = {
+  id: string;
+  column: string;
+  severity: 'error' | 'warning';
+} & (
+  | { kind: 'not_null' }
+  | { kind: 'unique' }
+  | { kind: 'regex'; pattern: string; flags?: string }
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'allowed_values'; values: string[]; caseSensitive?: boolean }
+  | { kind: 'not_in_future' }
+  | { kind: 'compare'; operator: ComparisonOperator; otherColumn: string }
+);
+
+export type ValidationRuleKind = ValidationRule['kind'];
+
+export interface RuleViolation {
+  row: number; // 1-based data row
+  value: string;
+}
+
+export interface RuleResult {
+  rule: ValidationRule;
+  checkedRows: number;
+  violationCount: number;
+  examples: RuleViolation[];
+  error?: string; // the rule could not run, e.g. missing column or bad pattern
+}
+
+export interface ParseProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  rowsProcessed: number;
+  totalRows?: number; // spreadsheets only, 0 until the workbook has been read
 }
 
 // Error handling types